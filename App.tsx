@@ -5,7 +5,7 @@ import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import Svg, { Path, Circle, Rect, Line, G } from 'react-native-svg';
 
-import { HUDScreen, OBDScreen, ConnectionScreen, PerformanceScreen, OffroadScreen, SettingsScreen } from './src/screens';
+import { HUDScreen, OBDScreen, ConnectionScreen, TerminalScreen, DiagnosticsScreen, PerformanceScreen, OffroadScreen, SettingsScreen } from './src/screens';
 import { colors } from './src/theme/colors';
 
 const Tab = createBottomTabNavigator();
@@ -60,6 +60,30 @@ const BluetoothIcon = ({ color, size }: { color: string; size: number }) => (
   </Svg>
 );
 
+const TerminalIcon = ({ color, size }: { color: string; size: number }) => (
+  <Svg width={size} height={size} viewBox="0 0 24 24">
+    <Rect x="3" y="4" width="18" height="16" stroke={color} strokeWidth="1.5" fill="none" />
+    <Path d="M7 9l3 3-3 3" stroke={color} strokeWidth="1.5" fill="none" strokeLinecap="round" strokeLinejoin="round" />
+    <Line x1="12" y1="15" x2="17" y2="15" stroke={color} strokeWidth="1.5" strokeLinecap="round" />
+  </Svg>
+);
+
+const EngineWarningIcon = ({ color, size }: { color: string; size: number }) => (
+  <Svg width={size} height={size} viewBox="0 0 24 24">
+    {/* Engine block outline */}
+    <Path
+      d="M4 9h3l2-2h5v2h3l2 2v6h-2v2H9l-2-2H4z"
+      stroke={color}
+      strokeWidth="1.5"
+      fill="none"
+      strokeLinejoin="round"
+    />
+    {/* Exclamation mark */}
+    <Line x1="12" y1="10.5" x2="12" y2="14" stroke={color} strokeWidth="1.5" strokeLinecap="round" />
+    <Circle cx="12" cy="16" r="0.8" fill={color} />
+  </Svg>
+);
+
 const GForceIcon = ({ color, size }: { color: string; size: number }) => (
   <Svg width={size} height={size} viewBox="0 0 24 24">
     <Circle cx="12" cy="12" r="9" stroke={color} strokeWidth="1.5" fill="none" />
@@ -152,6 +176,22 @@ export default function App() {
               tabBarLabel: 'OBD',
             }}
           />
+          <Tab.Screen
+            name="Terminal"
+            component={TerminalScreen}
+            options={{
+              tabBarIcon: ({ color }) => <TerminalIcon color={color} size={22} />,
+              tabBarLabel: 'TERM',
+            }}
+          />
+          <Tab.Screen
+            name="Diagnostics"
+            component={DiagnosticsScreen}
+            options={{
+              tabBarIcon: ({ color }) => <EngineWarningIcon color={color} size={22} />,
+              tabBarLabel: 'DTC',
+            }}
+          />
           <Tab.Screen
             name="Settings"
             component={SettingsScreen}
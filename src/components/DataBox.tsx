@@ -9,6 +9,8 @@ interface DataBoxProps {
   color?: string;
   size?: 'small' | 'medium' | 'large';
   style?: ViewStyle;
+  unavailable?: boolean;   // Channel not reported by the ECU - greyed out, no value
+  stale?: boolean;         // No fresh sample lately - dimmed, dashed outline, no value
 }
 
 export const DataBox: React.FC<DataBoxProps> = ({
@@ -18,6 +20,8 @@ export const DataBox: React.FC<DataBoxProps> = ({
   color = colors.primary,
   size = 'medium',
   style,
+  unavailable = false,
+  stale = false,
 }) => {
   const getFontSize = () => {
     switch (size) {
@@ -27,15 +31,17 @@ export const DataBox: React.FC<DataBoxProps> = ({
     }
   };
 
+  const displayColor = unavailable || stale ? colors.textDim : color;
+
   return (
-    <View style={[styles.container, { borderColor: color }, style]}>
+    <View style={[styles.container, { borderColor: displayColor }, unavailable && styles.unavailable, stale && styles.stale, style]}>
       <Text style={styles.label}>{label}</Text>
       <View style={styles.valueRow}>
-        <Text style={[styles.value, { color, fontSize: getFontSize() }]}>
-          {value}
+        <Text style={[styles.value, { color: displayColor, fontSize: getFontSize() }]}>
+          {unavailable || stale ? '--' : value}
         </Text>
         {unit && (
-          <Text style={[styles.unit, { color: `${color}88` }]}>{unit}</Text>
+          <Text style={[styles.unit, { color: `${displayColor}88` }]}>{unit}</Text>
         )}
       </View>
     </View>
@@ -49,6 +55,13 @@ const styles = StyleSheet.create({
     padding: 8,
     minWidth: 80,
   },
+  unavailable: {
+    opacity: 0.4,
+  },
+  stale: {
+    opacity: 0.6,
+    borderStyle: 'dashed',
+  },
   label: {
     color: colors.textDim,
     fontSize: 9,
@@ -19,6 +19,8 @@ interface GaugeArcProps {
   warningThreshold?: number;
   dangerThreshold?: number;
   color?: string;
+  unavailable?: boolean;   // Channel not reported by the ECU - greyed out, no value
+  stale?: boolean;         // No fresh sample lately - dimmed, needle left at the last value, no number
 }
 
 export const GaugeArc: React.FC<GaugeArcProps> = ({
@@ -31,6 +33,8 @@ export const GaugeArc: React.FC<GaugeArcProps> = ({
   warningThreshold,
   dangerThreshold,
   color = colors.primary,
+  unavailable = false,
+  stale = false,
 }) => {
   const center = size / 2;
   const radius = size * 0.38;
@@ -42,12 +46,14 @@ export const GaugeArc: React.FC<GaugeArcProps> = ({
   const sweepAngle = endAngle - startAngle;
   
   // Calculate current angle based on value
-  const valuePercent = Math.min(1, Math.max(0, (value - min) / (max - min)));
+  const valuePercent = unavailable ? 0 : Math.min(1, Math.max(0, (value - min) / (max - min)));
   const currentAngle = startAngle + valuePercent * sweepAngle;
   
   // Determine color based on thresholds
   let activeColor = color;
-  if (dangerThreshold !== undefined && value >= dangerThreshold) {
+  if (unavailable || stale) {
+    activeColor = colors.textDim;
+  } else if (dangerThreshold !== undefined && value >= dangerThreshold) {
     activeColor = colors.danger;
   } else if (warningThreshold !== undefined && value >= warningThreshold) {
     activeColor = colors.warning;
@@ -134,7 +140,7 @@ export const GaugeArc: React.FC<GaugeArcProps> = ({
   const needleY = center + needleLength * Math.sin(needleAngle);
 
   return (
-    <View style={[styles.container, { width: size, height: size }]}>
+    <View style={[styles.container, { width: size, height: size }, unavailable && styles.unavailable, stale && styles.stale]}>
       <Svg width={size} height={size}>
         {/* Background arc */}
         <Path
@@ -176,7 +182,7 @@ export const GaugeArc: React.FC<GaugeArcProps> = ({
       {/* Value display */}
       <View style={styles.valueContainer}>
         <Text style={[styles.value, { color: activeColor }]}>
-          {typeof value === 'number' ? Math.round(value) : value}
+          {unavailable || stale ? '--' : typeof value === 'number' ? Math.round(value) : value}
         </Text>
         <Text style={styles.unit}>{unit}</Text>
       </View>
@@ -192,6 +198,12 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
   },
+  unavailable: {
+    opacity: 0.4,
+  },
+  stale: {
+    opacity: 0.6,
+  },
   valueContainer: {
     position: 'absolute',
     bottom: '25%',
@@ -0,0 +1,119 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '../theme/colors';
+import type { MonitorTestResult } from '../services/MonitorTests';
+
+interface MonitorTestListProps {
+  results: MonitorTestResult[];
+}
+
+// Print scaled values with just enough precision for their magnitude
+const formatValue = (value: number): string => {
+  const abs = Math.abs(value);
+  if (abs >= 100 || Number.isInteger(value)) return value.toFixed(0);
+  if (abs >= 1) return value.toFixed(2);
+  return value.toFixed(4);
+};
+
+export const MonitorTestList: React.FC<MonitorTestListProps> = ({ results }) => {
+  const failedCount = results.filter(result => !result.passed).length;
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.summary, { color: failedCount > 0 ? colors.danger : colors.primary }]}>
+        {results.length} TESTS · {failedCount} FAILED
+      </Text>
+
+      <View style={styles.headerRow}>
+        <Text style={[styles.headerText, styles.nameColumn]}>MONITOR / TID</Text>
+        <Text style={styles.headerText}>VALUE</Text>
+        <Text style={styles.headerText}>MIN</Text>
+        <Text style={styles.headerText}>MAX</Text>
+      </View>
+
+      {results.map((result) => (
+        <View
+          key={`${result.mid}-${result.tid}`}
+          style={[styles.resultRow, !result.passed && styles.resultRowFailed]}
+        >
+          <View style={styles.nameColumn}>
+            <Text style={styles.monitorName}>{result.monitor}</Text>
+            <Text style={styles.testId}>
+              MID {result.mid} · TID {result.tid}{result.unit ? ` · ${result.unit}` : ''}
+            </Text>
+          </View>
+          <Text style={[styles.value, { color: result.passed ? colors.primary : colors.danger }]}>
+            {formatValue(result.value)}
+          </Text>
+          <Text style={styles.limit}>{formatValue(result.min)}</Text>
+          <Text style={styles.limit}>{formatValue(result.max)}</Text>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.gaugeBorder,
+    padding: 12,
+  },
+  summary: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.gaugeBorder,
+    paddingBottom: 4,
+    marginBottom: 4,
+  },
+  headerText: {
+    width: 60,
+    color: colors.textDim,
+    fontSize: 8,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+  },
+  nameColumn: {
+    flex: 1,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  resultRowFailed: {
+    backgroundColor: 'rgba(255, 51, 102, 0.1)',
+  },
+  monitorName: {
+    color: colors.textSecondary,
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  testId: {
+    color: colors.textDim,
+    fontSize: 8,
+    fontFamily: 'monospace',
+  },
+  value: {
+    width: 60,
+    fontSize: 11,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  limit: {
+    width: 60,
+    color: colors.textDim,
+    fontSize: 10,
+    fontFamily: 'monospace',
+  },
+});
+
+export default MonitorTestList;
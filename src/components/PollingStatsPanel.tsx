@@ -0,0 +1,142 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '../theme/colors';
+import { getPidDefinition } from '../services/PIDRegistry';
+import type { PollingStats } from '../services/PollScheduler';
+
+interface PollingStatsPanelProps {
+  stats: PollingStats;
+  names?: Record<string, string>;   // Names of polled ids outside the registry (custom PIDs)
+}
+
+// '010C' -> 'Engine RPM'
+const channelForPid = (pid: string, names: Record<string, string>): string =>
+  getPidDefinition(pid)?.name ?? names[pid] ?? pid;
+
+// Slow channels need decimals, fast ones do not
+const formatHz = (hz: number): string => (hz >= 1 ? hz.toFixed(1) : hz.toFixed(2));
+
+// Below this share of its target a channel counts as starved
+const STARVED_RATIO = 0.8;
+
+export const PollingStatsPanel: React.FC<PollingStatsPanelProps> = ({ stats, names = {} }) => {
+  const loadColor = stats.busLoad > 0.9 ? colors.danger : stats.busLoad > 0.7 ? colors.warning : colors.primary;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>BUS LOAD</Text>
+          <Text style={[styles.summaryValue, { color: loadColor }]}>{Math.round(stats.busLoad * 100)}%</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>REQUESTS</Text>
+          <Text style={styles.summaryValue}>{stats.requestRate.toFixed(1)}/s</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>LATENCY</Text>
+          <Text style={styles.summaryValue}>{stats.averageLatency} ms</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>SAMPLES</Text>
+          <Text style={styles.summaryValue}>
+            {stats.sampleRate.toFixed(1)}/{stats.demandHz.toFixed(1)}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.headerRow}>
+        <Text style={[styles.headerText, styles.nameColumn]}>CHANNEL</Text>
+        <Text style={styles.headerText}>TARGET</Text>
+        <Text style={styles.headerText}>ACTUAL</Text>
+        <Text style={styles.headerText}>RTT</Text>
+      </View>
+
+      {stats.channels.map((channel) => {
+        const starved = channel.samples > 0 && channel.achievedHz < channel.targetHz * STARVED_RATIO;
+        return (
+          <View key={channel.pid} style={styles.channelRow}>
+            <View style={styles.nameColumn}>
+              <Text style={styles.channelName}>{channelForPid(channel.pid, names)}</Text>
+              <Text style={styles.channelPid}>{channel.pid}</Text>
+            </View>
+            <Text style={styles.rate}>{formatHz(channel.targetHz)}</Text>
+            <Text style={[styles.rate, { color: starved ? colors.warning : colors.primary }]}>
+              {formatHz(channel.achievedHz)}
+            </Text>
+            <Text style={styles.rate}>{channel.latencyMs || '--'}</Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.gaugeBorder,
+    padding: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    color: colors.textDim,
+    fontSize: 8,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+  },
+  summaryValue: {
+    color: colors.textPrimary,
+    fontSize: 13,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.gaugeBorder,
+    paddingBottom: 4,
+    marginBottom: 4,
+  },
+  headerText: {
+    width: 56,
+    color: colors.textDim,
+    fontSize: 8,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+  },
+  nameColumn: {
+    flex: 1,
+  },
+  channelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 3,
+  },
+  channelName: {
+    color: colors.textSecondary,
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  channelPid: {
+    color: colors.textDim,
+    fontSize: 8,
+    fontFamily: 'monospace',
+  },
+  rate: {
+    width: 56,
+    color: colors.textSecondary,
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+});
+
+export default PollingStatsPanel;
@@ -0,0 +1,152 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { colors } from '../theme/colors';
+import { isReadyForInspection } from '../services/ReadinessMonitors';
+import type { MonitorStatus, ReadinessReport } from '../services/ReadinessMonitors';
+
+interface ReadinessPanelProps {
+  sinceClear: ReadinessReport;
+  thisDriveCycle?: ReadinessReport | null;
+}
+
+const STATUS_LABELS: Record<MonitorStatus, string> = {
+  complete: 'READY',
+  incomplete: 'NOT READY',
+  not_supported: 'N/A',
+};
+
+const STATUS_COLORS: Record<MonitorStatus, string> = {
+  complete: colors.primary,
+  incomplete: colors.warning,
+  not_supported: colors.textDim,
+};
+
+export const ReadinessPanel: React.FC<ReadinessPanelProps> = ({
+  sinceClear,
+  thisDriveCycle,
+}) => {
+  const ready = isReadyForInspection(sinceClear);
+
+  const renderStatus = (status: MonitorStatus | undefined) => (
+    <Text style={[styles.status, { color: status ? STATUS_COLORS[status] : colors.textDim }]}>
+      {status ? STATUS_LABELS[status] : '--'}
+    </Text>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.summaryRow}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>MIL</Text>
+          <Text style={[styles.summaryValue, { color: sinceClear.milOn ? colors.danger : colors.primary }]}>
+            {sinceClear.milOn ? 'ON' : 'OFF'}
+          </Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>DTCs</Text>
+          <Text style={styles.summaryValue}>{sinceClear.dtcCount}</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>ENGINE</Text>
+          <Text style={styles.summaryValue}>
+            {sinceClear.ignitionType === 'compression' ? 'DIESEL' : 'PETROL'}
+          </Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryLabel}>INSPECTION</Text>
+          <Text style={[styles.summaryValue, { color: ready ? colors.primary : colors.warning }]}>
+            {ready ? 'READY' : 'NOT READY'}
+          </Text>
+        </View>
+      </View>
+
+      <View style={styles.headerRow}>
+        <Text style={[styles.headerText, styles.nameColumn]}>MONITOR</Text>
+        <Text style={styles.headerText}>SINCE CLEAR</Text>
+        {thisDriveCycle && <Text style={styles.headerText}>THIS DRIVE</Text>}
+      </View>
+
+      {sinceClear.monitors.map((monitor) => (
+        <View key={monitor.name} style={styles.monitorRow}>
+          <Text style={[styles.monitorName, styles.nameColumn]}>
+            {monitor.name}{monitor.continuous ? ' *' : ''}
+          </Text>
+          {renderStatus(monitor.status)}
+          {thisDriveCycle &&
+            renderStatus(thisDriveCycle.monitors.find(m => m.name === monitor.name)?.status)}
+        </View>
+      ))}
+
+      <Text style={styles.footnote}>* Continuous monitor</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.gaugeBorder,
+    padding: 12,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 12,
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    color: colors.textDim,
+    fontSize: 8,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+  },
+  summaryValue: {
+    color: colors.textSecondary,
+    fontSize: 13,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  headerRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.gaugeBorder,
+    paddingBottom: 4,
+    marginBottom: 4,
+  },
+  headerText: {
+    width: 80,
+    color: colors.textDim,
+    fontSize: 8,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+  },
+  nameColumn: {
+    flex: 1,
+  },
+  monitorRow: {
+    flexDirection: 'row',
+    paddingVertical: 4,
+  },
+  monitorName: {
+    color: colors.textSecondary,
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  status: {
+    width: 80,
+    fontSize: 10,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  footnote: {
+    color: colors.textDim,
+    fontSize: 9,
+    fontFamily: 'monospace',
+    marginTop: 8,
+  },
+});
+
+export default ReadinessPanel;
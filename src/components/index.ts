@@ -6,4 +6,7 @@ export { GaugeArc } from './GaugeArc';
 export { DataBox } from './DataBox';
 export { GForceMeter } from './GForceMeter';
 export { Inclinometer } from './Inclinometer';
+export { ReadinessPanel } from './ReadinessPanel';
+export { MonitorTestList } from './MonitorTestList';
+export { PollingStatsPanel } from './PollingStatsPanel';
 
@@ -2,6 +2,8 @@ export { useCompass } from './useCompass';
 export { useLocation } from './useLocation';
 export { useOrientation } from './useOrientation';
 export { useOBD } from './useOBD';
+export { useTerminal } from './useTerminal';
+export { useDiagnostics } from './useDiagnostics';
 export { useAcceleration } from './useAcceleration';
 export { useInclinometer } from './useInclinometer';
 export { useCalibratedSensors } from './useCalibratedSensors';
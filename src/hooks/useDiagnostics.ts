@@ -0,0 +1,134 @@
+import { useState, useCallback } from 'react';
+import { OBDService } from '../services/OBDService';
+import type { FreezeFrame, ReadinessStatus } from '../services/OBDService';
+import type { DiagnosticTroubleCode } from '../services/DTCCodes';
+import type { MonitorTestResult } from '../services/MonitorTests';
+
+export interface UseDiagnosticsResult {
+  codes: DiagnosticTroubleCode[];
+  freezeFrames: FreezeFrame[];
+  readiness: ReadinessStatus | null;
+  monitorTests: MonitorTestResult[] | null;
+  isReading: boolean;
+  isReadingReadiness: boolean;
+  isReadingTests: boolean;
+  isClearing: boolean;
+  lastRead: Date | null;
+  error: string | null;
+  readCodes: () => Promise<void>;
+  clearCodes: () => Promise<boolean>;
+  readReadiness: () => Promise<void>;
+  readMonitorTests: () => Promise<void>;
+}
+
+/**
+ * Hook for reading and clearing diagnostic trouble codes.
+ * Requests go through the OBD service command queue, so they
+ * interleave safely with live polling.
+ */
+export const useDiagnostics = (): UseDiagnosticsResult => {
+  const [codes, setCodes] = useState<DiagnosticTroubleCode[]>([]);
+  const [freezeFrames, setFreezeFrames] = useState<FreezeFrame[]>([]);
+  const [readiness, setReadiness] = useState<ReadinessStatus | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [monitorTests, setMonitorTests] = useState<MonitorTestResult[] | null>(null);
+  const [isReadingReadiness, setIsReadingReadiness] = useState(false);
+  const [isReadingTests, setIsReadingTests] = useState(false);
+  const [isClearing, setIsClearing] = useState(false);
+  const [lastRead, setLastRead] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [obdService] = useState(() => OBDService.getInstance());
+
+  const readCodes = useCallback(async () => {
+    if (!obdService.isConnected()) {
+      setError('Connect an OBD adapter to read trouble codes.');
+      return;
+    }
+
+    try {
+      setIsReading(true);
+      setError(null);
+      const result = await obdService.readAllDTCs();
+      setCodes(result);
+
+      // Freeze frames only exist for stored (confirmed) codes
+      const storedCount = result.filter(dtc => dtc.type === 'stored').length;
+      setFreezeFrames(storedCount > 0 ? await obdService.readFreezeFrames(storedCount) : []);
+      setLastRead(new Date());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read trouble codes');
+    } finally {
+      setIsReading(false);
+    }
+  }, [obdService]);
+
+  const clearCodes = useCallback(async (): Promise<boolean> => {
+    try {
+      setIsClearing(true);
+      setError(null);
+      await obdService.clearDTCs();
+      setCodes([]);
+      setFreezeFrames([]);
+      setReadiness(null);  // Clearing resets every monitor to incomplete
+      setMonitorTests(null);
+      setLastRead(new Date());
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear trouble codes');
+      return false;
+    } finally {
+      setIsClearing(false);
+    }
+  }, [obdService]);
+
+  const readReadiness = useCallback(async () => {
+    if (!obdService.isConnected()) {
+      setError('Connect an OBD adapter to read readiness monitors.');
+      return;
+    }
+
+    try {
+      setIsReadingReadiness(true);
+      setError(null);
+      setReadiness(await obdService.readReadiness());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read readiness monitors');
+    } finally {
+      setIsReadingReadiness(false);
+    }
+  }, [obdService]);
+
+  const readMonitorTests = useCallback(async () => {
+    if (!obdService.isConnected()) {
+      setError('Connect an OBD adapter to read monitor test results.');
+      return;
+    }
+
+    try {
+      setIsReadingTests(true);
+      setError(null);
+      setMonitorTests(await obdService.readMonitorTests());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read monitor test results');
+    } finally {
+      setIsReadingTests(false);
+    }
+  }, [obdService]);
+
+  return {
+    codes,
+    freezeFrames,
+    readiness,
+    monitorTests,
+    isReading,
+    isReadingReadiness,
+    isReadingTests,
+    isClearing,
+    lastRead,
+    error,
+    readCodes,
+    clearCodes,
+    readReadiness,
+    readMonitorTests,
+  };
+};
@@ -1,6 +1,13 @@
-import { useState, useCallback, useEffect } from 'react';
-import { OBDService } from '../services/OBDService';
-import type { OBDData as ServiceOBDData } from '../services/OBDService';
+import { useState, useCallback, useEffect, useContext, useMemo } from 'react';
+import { NavigationContext } from '@react-navigation/native';
+import { OBDService, OBD_CHANNEL_PIDS } from '../services/OBDService';
+import type { OBDData as ServiceOBDData, VehicleInfo, ConnectionState, OBDHealth, ChannelSample } from '../services/OBDService';
+import type { TransportType } from '../services/OBDTransport';
+import type { SimulatorOptions } from '../services/ELM327Emulator';
+import type { AdapterProfile } from '../services/AdapterProfile';
+import type { PollingStats } from '../services/PollScheduler';
+import type { CustomPIDId } from '../services/CustomPIDs';
+import type { FuelRateSource } from '../services/FuelEstimator';
 import type { Device } from 'react-native-ble-plx';
 
 export interface OBDData {
@@ -9,6 +16,7 @@ export interface OBDData {
   coolantTemp: number;
   fuelLevel: number;
   fuelRate: number;
+  fuelRateSource: FuelRateSource;
   throttlePosition: number;
   engineLoad: number;
   intakeTemp: number;
@@ -23,14 +31,39 @@ export interface OBDData {
   egrError: number;
   boostPressure: number;
   fuelPressure: number;
+  fuelRailPressure: number;
+  boostCommanded: number;
+  boostActual: number;
+  turboRpm: number;
+  egtBank1: number;
+  egtBank2: number;
+  dpfPressureBank1: number;
+  dpfPressureBank2: number;
+  dpfInletTemp: number;
+  noxConcentration: number;
+  frictionTorque: number;
   mafRate: number;
   acceleratorPosition: number;
   batteryVoltage: number;
   barometricPressure: number;
   ambientTemp: number;
   runTime: number;
+  distanceWithMIL: number;
+  milOn: boolean;
+  dtcCount: number;
   deviceName: string;
   isConnected: boolean;
+  connectionState: ConnectionState;
+  reconnectAttempt: number;
+  supportedPids: string[];
+  vin: string;
+  protocol: string;
+  ecus: string[];
+  sampleRate: number;
+  multiPid: boolean;
+  pidValues: Record<string, number>;
+  customValues: Record<string, number>;
+  channelSamples: Record<string, ChannelSample>;
 }
 
 const DEFAULT_OBD_DATA: OBDData = {
@@ -39,6 +72,7 @@ const DEFAULT_OBD_DATA: OBDData = {
   coolantTemp: 0,
   fuelLevel: 0,
   fuelRate: 0,
+  fuelRateSource: 'pid',
   throttlePosition: 0,
   engineLoad: 0,
   intakeTemp: 0,
@@ -53,16 +87,49 @@ const DEFAULT_OBD_DATA: OBDData = {
   egrError: 0,
   boostPressure: 0,
   fuelPressure: 0,
+  fuelRailPressure: 0,
+  boostCommanded: 0,
+  boostActual: 0,
+  turboRpm: 0,
+  egtBank1: 0,
+  egtBank2: 0,
+  dpfPressureBank1: 0,
+  dpfPressureBank2: 0,
+  dpfInletTemp: 0,
+  noxConcentration: 0,
+  frictionTorque: 0,
   mafRate: 0,
   acceleratorPosition: 0,
   batteryVoltage: 0,
   barometricPressure: 0,
   ambientTemp: 0,
   runTime: 0,
+  distanceWithMIL: 0,
+  milOn: false,
+  dtcCount: 0,
   deviceName: '',
   isConnected: false,
+  connectionState: 'disconnected',
+  reconnectAttempt: 0,
+  supportedPids: [],
+  vin: '',
+  protocol: '',
+  ecus: [],
+  sampleRate: 0,
+  multiPid: false,
+  pidValues: {},
+  customValues: {},
+  channelSamples: {},
 };
 
+// A value is stale once this many samples in a row are missing...
+const STALE_PERIODS = 3;
+// ...but never sooner than this, whatever the channel's rate
+const STALE_MIN_AGE = 2000;            // ms
+const STALE_CHECK_INTERVAL = 500;      // ms
+
+type Channel = keyof ServiceOBDData | CustomPIDId;
+
 export interface UseOBDResult {
   data: OBDData;
   isScanning: boolean;
@@ -73,18 +140,33 @@ export interface UseOBDResult {
   isBleAvailable: boolean;
   showAllDevices: boolean;
   setShowAllDevices: (show: boolean) => void;
+  transportType: TransportType;
+  setTransportType: (type: TransportType) => void;
   startScan: () => Promise<void>;
   stopScan: () => void;
   connect: (deviceId: string) => Promise<void>;
+  connectWifi: (host: string, port: number) => Promise<void>;
+  connectSimulator: (options: SimulatorOptions) => Promise<void>;
   disconnect: () => Promise<void>;
+  isChannelSupported: (channel: keyof ServiceOBDData) => boolean;
+  vehicleInfo: VehicleInfo | null;
+  adapterProfile: AdapterProfile | null;
+  channelEcus: Partial<Record<keyof ServiceOBDData, string[]>>;
+  pollingStats: PollingStats | null;
+  health: OBDHealth;
+  ageMs: (channel: Channel) => number;      // Since the latest value, Infinity if none yet
+  isStale: (channel: Channel) => boolean;   // No fresh value for several poll periods
 }
 
 /**
- * Hook for OBD-II data via Bluetooth
+ * Hook for OBD-II data via Bluetooth LE, Classic Bluetooth (SPP) or Wi-Fi
  * Note: Requires a development build for full functionality.
  * In Expo Go, BLE is not available.
+ *
+ * Pass the channels the caller displays (e.g. ['rpm', 'boostPressure']) to have
+ * them polled at full rate while its screen is focused. Custom PID ids work too.
  */
-export const useOBD = (): UseOBDResult => {
+export const useOBD = (channels?: Channel[]): UseOBDResult => {
   const [data, setData] = useState<OBDData>(DEFAULT_OBD_DATA);
   const [isScanning, setIsScanning] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
@@ -92,17 +174,51 @@ export const useOBD = (): UseOBDResult => {
   const [availableDevices, setAvailableDevices] = useState<Array<{ id: string; name: string }>>([]);
   const [error, setError] = useState<string | null>(null);
   const [showAllDevices, setShowAllDevices] = useState(false);
+  const [transportType, setTransportTypeState] = useState<TransportType>('ble');
+  const [vehicleInfo, setVehicleInfo] = useState<VehicleInfo | null>(null);
+  const [adapterProfile, setAdapterProfile] = useState<AdapterProfile | null>(null);
+  const [channelEcus, setChannelEcus] = useState<Partial<Record<keyof ServiceOBDData, string[]>>>({});
+  const [pollingStats, setPollingStats] = useState<PollingStats | null>(null);
   const [obdService] = useState(() => OBDService.getInstance());
+  const [health, setHealth] = useState<OBDHealth>(() => obdService.getHealth());
+
+  // Tab screens stay mounted, so follow focus rather than mount (always focused outside a navigator)
+  const navigation = useContext(NavigationContext);
+  const [isFocused, setIsFocused] = useState(() => navigation?.isFocused() ?? true);
+
+  useEffect(() => {
+    if (!navigation) return;
+    setIsFocused(navigation.isFocused());
+    const unsubscribeFocus = navigation.addListener('focus', () => setIsFocused(true));
+    const unsubscribeBlur = navigation.addListener('blur', () => setIsFocused(false));
+    return () => {
+      unsubscribeFocus();
+      unsubscribeBlur();
+    };
+  }, [navigation]);
+
+  // Re-register only when the channel list really changes, not on every render
+  const interestKey = channels?.join(',') ?? '';
+
+  useEffect(() => {
+    if (!interestKey || !isFocused) return;
+    return obdService.registerInterest(interestKey.split(',') as Channel[]);
+  }, [obdService, interestKey, isFocused]);
+
+  // Views showing live channels re-render on a tick, so values turn stale without new data
+  const [staleTick, setStaleTick] = useState(0);
+
+  useEffect(() => {
+    if (!interestKey || !isFocused) return;
+    const timer = setInterval(() => setStaleTick(tick => tick + 1), STALE_CHECK_INTERVAL);
+    return () => clearInterval(timer);
+  }, [interestKey, isFocused]);
 
   // Check if BLE is available
   const isBleAvailable = obdService.isBleAvailable();
 
-  // Subscribe to OBD data updates
+  // Subscribe to OBD data updates (the simulator works without BLE too)
   useEffect(() => {
-    if (!isBleAvailable) {
-      return;
-    }
-
     const unsubscribe = obdService.subscribe((newData: ServiceOBDData) => {
       // Map service data to hook data (with aliases)
       const mappedData: OBDData = {
@@ -113,6 +229,11 @@ export const useOBD = (): UseOBDResult => {
         commandedEGR: newData.egrCommanded,
       };
       setData(mappedData);
+      setVehicleInfo(obdService.getVehicleInfo());
+      setAdapterProfile(obdService.getAdapterProfile());
+      setChannelEcus(obdService.getChannelEcus());
+      setPollingStats(obdService.getPollingStats());
+      setHealth(obdService.getHealth());
       if (newData.isConnected && newData.deviceName) {
         setConnectedDevice(newData.deviceName);
         setIsConnecting(false);
@@ -122,10 +243,13 @@ export const useOBD = (): UseOBDResult => {
       }
     });
 
+    // Reopen the last adapter (no-op after the first call)
+    obdService.autoConnect();
+
     return () => {
       unsubscribe();
     };
-  }, [isBleAvailable, obdService]);
+  }, [obdService]);
 
   const startScan = useCallback(async () => {
     if (!isBleAvailable) {
@@ -138,6 +262,13 @@ export const useOBD = (): UseOBDResult => {
       setError(null);
       setAvailableDevices([]);
 
+      // Classic adapters must be paired beforehand, so list those instead of scanning
+      if (transportType === 'spp') {
+        setAvailableDevices(await obdService.getPairedDevices());
+        setIsScanning(false);
+        return;
+      }
+
       await obdService.scanForDevices((device: Device) => {
         console.log(`Hook received device: "${device.name}" | ID: ${device.id}`);
         setAvailableDevices((prev) => {
@@ -159,13 +290,21 @@ export const useOBD = (): UseOBDResult => {
       setError(err instanceof Error ? err.message : 'Scan failed');
       setIsScanning(false);
     }
-  }, [isBleAvailable, obdService, showAllDevices]);
+  }, [isBleAvailable, obdService, showAllDevices, transportType]);
 
   const stopScan = useCallback(() => {
     obdService.stopScan();
     setIsScanning(false);
   }, [obdService]);
 
+  // Devices found over one transport can't be opened over another
+  const setTransportType = useCallback((type: TransportType) => {
+    stopScan();
+    setAvailableDevices([]);
+    setError(null);
+    setTransportTypeState(type);
+  }, [stopScan]);
+
   const connect = useCallback(async (deviceId: string) => {
     if (!isBleAvailable) {
       setError('Bluetooth not available. Please use a development build.');
@@ -182,13 +321,41 @@ export const useOBD = (): UseOBDResult => {
         throw new Error('Device not found');
       }
 
-      await obdService.connect(deviceId);
+      if (transportType === 'spp') {
+        await obdService.connectClassic(device.id, device.name);
+      } else {
+        await obdService.connect(deviceId);
+      }
       setConnectedDevice(device.name);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Connection failed');
       setIsConnecting(false);
     }
-  }, [isBleAvailable, obdService, availableDevices, stopScan]);
+  }, [isBleAvailable, obdService, availableDevices, stopScan, transportType]);
+
+  const connectWifi = useCallback(async (host: string, port: number) => {
+    try {
+      setIsConnecting(true);
+      setError(null);
+
+      await obdService.connectWifi(host, port);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Connection failed');
+      setIsConnecting(false);
+    }
+  }, [obdService]);
+
+  const connectSimulator = useCallback(async (options: SimulatorOptions) => {
+    try {
+      setIsConnecting(true);
+      setError(null);
+
+      await obdService.connectSimulator(options);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Connection failed');
+      setIsConnecting(false);
+    }
+  }, [obdService]);
 
   const disconnect = useCallback(async () => {
     try {
@@ -200,6 +367,33 @@ export const useOBD = (): UseOBDResult => {
     }
   }, [obdService]);
 
+  // Channels are assumed supported until the ECU has reported its PID bitmap,
+  // or has answered NO DATA for them too often
+  const isChannelSupported = useCallback((channel: keyof ServiceOBDData) => {
+    // Without PID 015E the fuel rate may still be estimated
+    if (channel === 'fuelRate' && data.fuelRateSource !== 'pid') return data.fuelRateSource !== 'none';
+    const pid = OBD_CHANNEL_PIDS[channel];
+    if (pid === undefined) return true;
+    if (health.channels[pid]?.unsupported) return false;
+    return data.supportedPids.length === 0 || data.supportedPids.includes(pid);
+  }, [data.supportedPids, data.fuelRateSource, health.channels]);
+
+  // Clock the ages are measured against, read again on every stale tick and new sample
+  const now = useMemo(() => Date.now(), [staleTick, data.channelSamples]);
+
+  const ageMs = useCallback((channel: Channel) => {
+    const sample = data.channelSamples[channel];
+    return sample ? Math.max(0, now - sample.receivedAt) : Infinity;
+  }, [data.channelSamples, now]);
+
+  // Stale after STALE_PERIODS missed samples at the channel's current polling rate
+  const isStale = useCallback((channel: Channel) => {
+    const pid = OBD_CHANNEL_PIDS[channel as keyof ServiceOBDData] ?? channel;
+    const targetHz = pollingStats?.channels.find(stats => stats.pid === pid)?.targetHz;
+    const maxAge = targetHz ? Math.max(STALE_MIN_AGE, STALE_PERIODS * 1000 / targetHz) : STALE_MIN_AGE;
+    return ageMs(channel) > maxAge;
+  }, [ageMs, pollingStats]);
+
   return {
     data,
     isScanning,
@@ -210,10 +404,22 @@ export const useOBD = (): UseOBDResult => {
     isBleAvailable,
     showAllDevices,
     setShowAllDevices,
+    transportType,
+    setTransportType,
     startScan,
     stopScan,
     connect,
+    connectWifi,
+    connectSimulator,
     disconnect,
+    isChannelSupported,
+    vehicleInfo,
+    adapterProfile,
+    channelEcus,
+    pollingStats,
+    health,
+    ageMs,
+    isStale,
   };
 };
 
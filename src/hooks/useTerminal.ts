@@ -0,0 +1,135 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { OBDService, OBDCommandError } from '../services/OBDService';
+import type { TrafficEvent } from '../services/OBDService';
+
+export interface TerminalLine {
+  id: number;
+  direction: 'out' | 'in' | 'info';
+  text: string;
+  at: number;
+}
+
+const MAX_LINES = 500;
+const MAX_HISTORY = 20;
+const TERMINAL_COMMAND_TIMEOUT = 5000;   // ms
+const MONITOR_TIMEOUT = 60000;           // ms - ATMA and friends run until interrupted
+
+// Commands that stream until a byte is sent
+const isMonitorCommand = (command: string): boolean => /^AT(MA|MR|MT)/.test(command);
+
+// AT and STN (ST) commands that only read. Any other (ATZ, ATE1, ATH0, ATSP,
+// STSBR...) would change settings initializeAdapter made and the reply parsing
+// relies on, or drop the link altogether.
+const isReadOnlyAdapterCommand = (command: string): boolean =>
+  /^AT(I|@[12]|DPN?|RV|IGN|CS|BD|KW|PPS|RD|MA|MR[0-9A-F]{2}|MT[0-9A-F]{2})$/.test(command) ||
+  /^ST(I|IX|DI|MFR|SN|PRS)$/.test(command);
+
+// Mode 04 clears trouble codes - only with the checks and confirmation of the DTC tab
+const isClearCodesCommand = (command: string): boolean => command.startsWith('04');
+
+/**
+ * Raw ELM327 terminal. Commands go through the service's command queue,
+ * so they interleave with live data polling instead of corrupting it;
+ * the reply is shown as the adapter streams it.
+ */
+export const useTerminal = () => {
+  const [obdService] = useState(() => OBDService.getInstance());
+  const [lines, setLines] = useState<TerminalLine[]>([]);
+  const [history, setHistory] = useState<string[]>([]);
+  const [pending, setPending] = useState<string | null>(null);
+  const [isConnected, setIsConnected] = useState(false);
+  const [pollingPaused, setPollingPaused] = useState(false);
+
+  const nextLineId = useRef(1);
+  const pendingRef = useRef<string | null>(null);
+  const partialLine = useRef('');
+
+  const appendLines = useCallback((direction: TerminalLine['direction'], texts: string[], at: number = Date.now()) => {
+    if (texts.length === 0) return;
+    setLines(prev => [
+      ...prev,
+      ...texts.map(text => ({ id: nextLineId.current++, direction, text, at })),
+    ].slice(-MAX_LINES));
+  }, []);
+
+  // Reply chunks of our own command, split into lines as they arrive
+  useEffect(() => {
+    return obdService.onTraffic((event: TrafficEvent) => {
+      if (event.direction !== 'in' || pendingRef.current === null || event.command !== pendingRef.current) return;
+
+      const text = partialLine.current + event.text;
+      const parts = text.split(/[\r\n]+/);
+      partialLine.current = parts.pop() ?? '';
+      appendLines('in', parts.map(part => part.trim()).filter(part => part !== '' && part !== '>'), event.at);
+    });
+  }, [obdService, appendLines]);
+
+  useEffect(() => {
+    return obdService.subscribe(data => {
+      setIsConnected(data.isConnected);
+      setPollingPaused(data.pollingPaused);
+    });
+  }, [obdService]);
+
+  const send = useCallback(async (input: string) => {
+    const command = input.replace(/\s/g, '').toUpperCase();
+    if (!command || pendingRef.current !== null) return;
+
+    setHistory(prev => [command, ...prev.filter(item => item !== command)].slice(0, MAX_HISTORY));
+    appendLines('out', [command]);
+    if (/^(AT|ST)/.test(command) && !isReadOnlyAdapterCommand(command)) {
+      appendLines('info', ['not sent - changes adapter settings live data relies on']);
+      return;
+    }
+    if (isClearCodesCommand(command)) {
+      appendLines('info', ['not sent - clear trouble codes on the DTC tab']);
+      return;
+    }
+    pendingRef.current = command;
+    partialLine.current = '';
+    setPending(command);
+
+    try {
+      await obdService.sendCommand(command, isMonitorCommand(command) ? MONITOR_TIMEOUT : TERMINAL_COMMAND_TIMEOUT);
+    } catch (error) {
+      // Error replies (NO DATA, ?) already showed up in the stream
+      if (error instanceof OBDCommandError && (error.reason === 'timeout' || error.reason === 'disconnected')) {
+        appendLines('info', [error.reason === 'timeout' ? 'no prompt - timed out' : 'not connected']);
+      }
+    } finally {
+      const rest = partialLine.current.trim();
+      if (rest && rest !== '>') appendLines('in', [rest.replace(/>$/, '')]);
+      partialLine.current = '';
+      pendingRef.current = null;
+      setPending(null);
+    }
+  }, [obdService, appendLines]);
+
+  const interrupt = useCallback(() => {
+    obdService.interruptCommand().catch(error => console.warn('Interrupt failed:', error));
+  }, [obdService]);
+
+  const setPaused = useCallback((paused: boolean) => {
+    if (paused) {
+      obdService.pausePolling();
+      appendLines('info', ['live data polling paused']);
+    } else {
+      obdService.resumePolling();
+      appendLines('info', ['live data polling resumed']);
+    }
+  }, [obdService, appendLines]);
+
+  const clear = useCallback(() => setLines([]), []);
+
+  return {
+    lines,
+    history,
+    pending,
+    isConnected,
+    pollingPaused,
+    send,
+    interrupt,
+    setPaused,
+    clear,
+  };
+};
@@ -1,27 +1,42 @@
 import { useState, useEffect, useCallback } from 'react';
-
-// Try to import AsyncStorage, fallback to in-memory storage if not available
-let AsyncStorage: any = null;
-try {
-  AsyncStorage = require('@react-native-async-storage/async-storage').default;
-} catch (e) {
-  console.warn('AsyncStorage not available, using in-memory storage');
-  const memoryStorage: { [key: string]: string } = {};
-  AsyncStorage = {
-    getItem: async (key: string) => memoryStorage[key] || null,
-    setItem: async (key: string, value: string) => { memoryStorage[key] = value; },
-    removeItem: async (key: string) => { delete memoryStorage[key]; },
-  };
-}
+import { OBDService } from '../services/OBDService';
+import { decodeVIN, describeVehicle } from '../services/VINDecoder';
+import { getPackPids } from '../services/VehiclePacks';
+import type { CustomPID } from '../services/CustomPIDs';
+import { DEFAULT_FUEL_MODEL, calibrationFromFillUps } from '../services/FuelEstimator';
+import type { FuelModel, FillUp } from '../services/FuelEstimator';
+import { AsyncStorage } from '../services/Storage';
 
 const SETTINGS_KEY = '@CarHUD:vehicleSettings';
+const PROFILES_KEY = '@CarHUD:vehicleProfiles';  // VIN -> settings for every car seen
+const MAX_FILL_UPS = 20;
+const FUEL_SAVE_STEP = 0.1;            // L - estimated fuel is saved in steps this big
 
 export interface VehicleSettings {
   // Fuel
   fuelTankCapacity: number;  // Liters
   
-  // Vehicle info (for future use)
+  // Fuel rate estimate for ECUs without PID 015E, calibrated by the fill-up log
+  fuelModel: FuelModel;
+  fillUps: FillUp[];
+  fuelSinceFillUp: number;   // Liters the estimate counted (uncalibrated) since the last fill-up
+  
+  // Vehicle info
   vehicleName: string;
+  vin: string;               // Empty until first connection reports a VIN
+  
+  // Multi-ECU: which ECU address feeds each channel, e.g. { speed: '7E9' }
+  channelSources: Record<string, string>;
+  
+  // OBD protocol (ELM327 number): last one detected, and a manual override ('' = none)
+  obdProtocol: string;
+  protocolOverride: string;
+  
+  // User-defined PIDs (manufacturer data), polled alongside the standard ones
+  customPids: CustomPID[];
+  
+  // Manufacturer enhanced PID pack for this engine ('' = none), see VehiclePacks
+  vehiclePack: string;
   
   // Display preferences
   speedUnit: 'kmh' | 'mph';
@@ -38,44 +53,213 @@ export interface FuelData {
 
 const DEFAULT_SETTINGS: VehicleSettings = {
   fuelTankCapacity: 60,  // RAV4 2005 Diesel has ~60L tank
+  fuelModel: DEFAULT_FUEL_MODEL,
+  fillUps: [],
+  fuelSinceFillUp: 0,
   vehicleName: 'Toyota RAV4 2005 D-4D',
+  vin: '',
+  channelSources: {},
+  obdProtocol: '',
+  protocolOverride: '',
+  customPids: [],
+  vehiclePack: '',
   speedUnit: 'kmh',
   altitudeUnit: 'm',
   temperatureUnit: 'c',
 };
 
-export const useVehicleSettings = () => {
-  const [settings, setSettings] = useState<VehicleSettings>(DEFAULT_SETTINGS);
-  const [isLoaded, setIsLoaded] = useState(false);
+// Settings are shared by every hook instance so a vehicle switch
+// triggered on one screen shows up everywhere
+let sharedSettings: VehicleSettings | null = null;
+const settingsListeners = new Set<(settings: VehicleSettings) => void>();
+let selectingVin: string | null = null;
+let loadingSettings: Promise<VehicleSettings> | null = null;
+let syncedSettings: VehicleSettings | null = null;   // Last settings pushed to OBDService
 
-  // Load settings on mount
-  useEffect(() => {
-    const loadSettings = async () => {
+const publishSettings = async (newSettings: VehicleSettings): Promise<void> => {
+  sharedSettings = newSettings;
+  settingsListeners.forEach(listener => listener(newSettings));
+  syncOBDService(newSettings);
+
+  try {
+    await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(newSettings));
+    if (newSettings.vin) {
+      const profiles = await loadProfiles();
+      profiles[newSettings.vin] = newSettings;
+      await AsyncStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+    }
+  } catch (e) {
+    console.warn('Failed to save vehicle settings:', e);
+  }
+};
+
+const loadProfiles = async (): Promise<Record<string, VehicleSettings>> => {
+  try {
+    const saved = await AsyncStorage.getItem(PROFILES_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.warn('Failed to load vehicle profiles:', e);
+    return {};
+  }
+};
+
+/**
+ * Switch to the settings stored for this VIN, creating them on first sight.
+ * The first VIN ever seen adopts the existing (pre-VIN) settings.
+ */
+const selectVehicleByVIN = async (vin: string): Promise<void> => {
+  const current = sharedSettings ?? DEFAULT_SETTINGS;
+  if (current.vin === vin || selectingVin === vin) return;
+
+  selectingVin = vin;
+  try {
+    const profiles = await loadProfiles();
+    let selected: VehicleSettings;
+
+    if (profiles[vin]) {
+      selected = { ...DEFAULT_SETTINGS, ...profiles[vin] };
+    } else if (!current.vin) {
+      selected = { ...current, vin };
+    } else {
+      const info = decodeVIN(vin);
+      selected = {
+        ...DEFAULT_SETTINGS,
+        // Display units are a driver preference, not a vehicle property
+        speedUnit: current.speedUnit,
+        altitudeUnit: current.altitudeUnit,
+        temperatureUnit: current.temperatureUnit,
+        vehicleName: info ? describeVehicle(info) : vin,
+        vin,
+      };
+    }
+
+    console.log(`Selected vehicle settings for VIN ${vin}: ${selected.vehicleName}`);
+    await publishSettings(selected);
+  } finally {
+    selectingVin = null;
+  }
+};
+
+/**
+ * Push the parts of the active vehicle's settings OBDService works with,
+ * skipping those unchanged since the last push.
+ */
+const syncOBDService = (settings: VehicleSettings): void => {
+  const obdService = OBDService.getInstance();
+  const previous = syncedSettings;
+  syncedSettings = settings;
+
+  // Per-channel ECU choice
+  if (previous?.channelSources !== settings.channelSources) {
+    obdService.setChannelSources(settings.channelSources);
+  }
+  // Next connection starts with this vehicle's protocol instead of the auto search
+  const protocol = settings.protocolOverride || settings.obdProtocol;
+  if (!previous || (previous.protocolOverride || previous.obdProtocol) !== protocol) {
+    obdService.setPreferredProtocol(protocol);
+  }
+  // Custom PIDs and the enhanced pack, addressed for this vehicle's bus
+  if (previous?.customPids !== settings.customPids || previous.vehiclePack !== settings.vehiclePack ||
+      previous.obdProtocol !== settings.obdProtocol) {
+    obdService.setCustomPids([
+      ...settings.customPids,
+      ...getPackPids(settings.vehiclePack, settings.obdProtocol),
+    ]);
+  }
+  // Fuel rate estimate for ECUs without PID 015E
+  if (previous?.fuelModel !== settings.fuelModel) {
+    obdService.setFuelModel(settings.fuelModel);
+  }
+};
+
+// Follow the connected vehicle - one subscription however many screens use the hook
+const followOBDService = (): void => {
+  OBDService.getInstance().subscribe((data) => {
+    // Pick the matching vehicle whenever the ECU reports a VIN
+    if (data.vin) {
+      selectVehicleByVIN(data.vin);
+    }
+    // Remember the detected protocol once the reply came from the active vehicle
+    const current = sharedSettings;
+    if (data.isConnected && data.protocol && current && !selectingVin &&
+        current.vin === data.vin && current.obdProtocol !== data.protocol) {
+      publishSettings({ ...current, obdProtocol: data.protocol });
+    }
+    // Bank the estimated fuel for the next fill-up
+    if (data.estimatedFuelUsed >= FUEL_SAVE_STEP && current && !selectingVin && current.vin === data.vin) {
+      const liters = OBDService.getInstance().takeEstimatedFuel();
+      if (liters > 0) {
+        publishSettings({ ...current, fuelSinceFillUp: current.fuelSinceFillUp + liters });
+      }
+    }
+  });
+};
+
+// Load the saved settings once, then hand them to OBDService and keep them in sync
+const loadSettings = (): Promise<VehicleSettings> => {
+  if (loadingSettings) return loadingSettings;
+
+  loadingSettings = (async () => {
+    if (!sharedSettings) {
       try {
         const saved = await AsyncStorage.getItem(SETTINGS_KEY);
-        if (saved) {
-          const parsed = JSON.parse(saved);
-          setSettings({ ...DEFAULT_SETTINGS, ...parsed });
-        }
+        sharedSettings = saved ? { ...DEFAULT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_SETTINGS;
       } catch (e) {
         console.warn('Failed to load vehicle settings:', e);
+        sharedSettings = DEFAULT_SETTINGS;
       }
+    }
+    syncOBDService(sharedSettings!);
+    followOBDService();
+    return sharedSettings!;
+  })();
+  return loadingSettings;
+};
+
+export const useVehicleSettings = () => {
+  const [settings, setSettings] = useState<VehicleSettings>(sharedSettings ?? DEFAULT_SETTINGS);
+  const [isLoaded, setIsLoaded] = useState(sharedSettings !== null);
+
+  // Load settings on mount
+  useEffect(() => {
+    settingsListeners.add(setSettings);
+
+    loadSettings().then(() => {
+      setSettings(sharedSettings!);
       setIsLoaded(true);
+    });
+
+    return () => {
+      settingsListeners.delete(setSettings);
     };
-    loadSettings();
   }, []);
 
   // Save settings
   const updateSettings = useCallback(async (updates: Partial<VehicleSettings>) => {
-    const newSettings = { ...settings, ...updates };
-    setSettings(newSettings);
-    
-    try {
-      await AsyncStorage.setItem(SETTINGS_KEY, JSON.stringify(newSettings));
-    } catch (e) {
-      console.warn('Failed to save vehicle settings:', e);
-    }
-    
+    const newSettings = { ...(sharedSettings ?? settings), ...updates };
+    await publishSettings(newSettings);
+    return newSettings;
+  }, [settings]);
+
+  /**
+   * Log a fill-up to full: compare the liters pumped with what the estimate
+   * counted since the previous one and recalibrate it.
+   */
+  const recordFillUp = useCallback(async (liters: number) => {
+    const current = sharedSettings ?? settings;
+    const estimated = current.fuelSinceFillUp + OBDService.getInstance().takeEstimatedFuel();
+    const fillUps = [
+      ...current.fillUps,
+      { at: Date.now(), liters, estimated: Math.round(estimated * 10) / 10 },
+    ].slice(-MAX_FILL_UPS);
+
+    const newSettings = {
+      ...current,
+      fillUps,
+      fuelSinceFillUp: 0,
+      fuelModel: { ...current.fuelModel, calibration: calibrationFromFillUps(fillUps) },
+    };
+    await publishSettings(newSettings);
     return newSettings;
   }, [settings]);
 
@@ -108,6 +292,7 @@ export const useVehicleSettings = () => {
   return {
     settings,
     updateSettings,
+    recordFillUp,
     calculateFuel,
     isLoaded,
   };
@@ -7,11 +7,27 @@ import {
   ActivityIndicator,
   Switch,
   ScrollView,
+  TextInput,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { useOBD } from '../hooks';
+import { describeECU } from '../services/ResponseParser';
+import { TRANSPORT_LABELS, DEFAULT_WIFI_HOST, DEFAULT_WIFI_PORT } from '../services/OBDTransport';
+import type { TransportType } from '../services/OBDTransport';
+import { SIMULATOR_SCENARIOS } from '../services/ELM327Emulator';
+import type { SimulatorScenario } from '../services/ELM327Emulator';
+import { CHIP_LABELS } from '../services/AdapterProfile';
+import { ELM_PROTOCOLS, MAX_PIDS_PER_REQUEST } from '../services/OBDService';
+import type { OBDHealthStatus } from '../services/OBDService';
 import { colors } from '../theme/colors';
 
+const HEALTH_LABELS: Record<OBDHealthStatus, { label: string; color: string }> = {
+  ok: { label: 'OK', color: colors.primary },
+  degraded: { label: 'DEGRADED', color: colors.warning },
+  bus_error: { label: 'BUS ERROR', color: colors.danger },
+  reinitializing: { label: 'REINITIALIZING', color: colors.warning },
+};
+
 export const ConnectionScreen: React.FC = () => {
   const { 
     data, 
@@ -25,9 +41,24 @@ export const ConnectionScreen: React.FC = () => {
     isBleAvailable,
     showAllDevices,
     setShowAllDevices,
+    vehicleInfo,
+    adapterProfile,
+    transportType,
+    setTransportType,
+    connectWifi,
+    connectSimulator,
+    isConnecting,
+    health,
   } = useOBD();
   
   const [connecting, setConnecting] = useState<string | null>(null);
+  const [wifiHost, setWifiHost] = useState(DEFAULT_WIFI_HOST);
+  const [wifiPort, setWifiPort] = useState(DEFAULT_WIFI_PORT.toString());
+  const [simScenario, setSimScenario] = useState<SimulatorScenario>('cruise');
+  const [simNoData, setSimNoData] = useState(false);
+  const [simCanErrors, setSimCanErrors] = useState(false);
+  const [simSlowReplies, setSimSlowReplies] = useState(false);
+  const [simClone, setSimClone] = useState(false);
 
   // Debug: Log when device list changes
   useEffect(() => {
@@ -62,10 +93,42 @@ export const ConnectionScreen: React.FC = () => {
     }
   };
 
+  const handleConnectWifi = async () => {
+    const port = parseInt(wifiPort, 10);
+    await connectWifi(wifiHost.trim() || DEFAULT_WIFI_HOST, isNaN(port) ? DEFAULT_WIFI_PORT : port);
+  };
+
+  const handleConnectSimulator = async () => {
+    await connectSimulator({
+      scenario: simScenario,
+      faults: {
+        noDataRate: simNoData ? 0.1 : 0,
+        canErrorRate: simCanErrors ? 0.05 : 0,
+        slowReplyRate: simSlowReplies ? 0.2 : 0,
+      },
+      clone: simClone,
+    });
+  };
+
+  const renderFaultToggle = (label: string, value: boolean, onChange: (value: boolean) => void) => (
+    <View style={styles.filterToggle}>
+      <Text style={styles.filterToggleLabel}>{label}</Text>
+      <Switch
+        value={value}
+        onValueChange={onChange}
+        trackColor={{ false: colors.gaugeBorder, true: colors.primary }}
+        thumbColor={colors.background}
+        disabled={isConnecting}
+      />
+    </View>
+  );
+
   const handleDisconnect = async () => {
     await disconnect();
   };
 
+  const isReconnecting = data.connectionState === 'reconnecting';
+
   const renderDevice = ({ item }: { item: { id: string; name: string } }) => {
     console.log(`Rendering device in UI: "${item.name}" | ID: ${item.id}`);
     const isBLE = item.name.toUpperCase().includes('BLE') || item.name.toUpperCase().includes('LE');
@@ -107,15 +170,24 @@ export const ConnectionScreen: React.FC = () => {
         <View style={styles.statusRow}>
           <View style={[
             styles.statusDot,
-            { backgroundColor: data.isConnected ? colors.primary : colors.danger }
+            { backgroundColor: data.isConnected ? colors.primary : isReconnecting ? colors.warning : colors.danger }
           ]} />
           <Text style={styles.statusText}>
-            {data.isConnected ? `Connected: ${data.deviceName}` : 'Disconnected'}
+            {data.isConnected
+              ? `Connected: ${data.deviceName}`
+              : isReconnecting
+                ? `Reconnecting to last adapter (attempt ${data.reconnectAttempt})...`
+                : 'Disconnected'}
           </Text>
+          {isReconnecting && (
+            <TouchableOpacity style={styles.cancelReconnect} onPress={handleDisconnect}>
+              <Text style={styles.cancelReconnectText}>CANCEL</Text>
+            </TouchableOpacity>
+          )}
         </View>
       </View>
 
-      {!isBleAvailable ? (
+      {!isBleAvailable && transportType !== 'sim' ? (
         <View style={styles.unavailableContainer}>
           <View style={styles.unavailableBox}>
             <Text style={styles.unavailableTitle}>BLUETOOTH NOT AVAILABLE</Text>
@@ -132,19 +204,98 @@ export const ConnectionScreen: React.FC = () => {
             <Text style={styles.unavailableNote}>
               The HUD will still work with GPS and sensors in Expo Go.
             </Text>
+            <TouchableOpacity style={styles.simulatorLink} onPress={() => setTransportType('sim')}>
+              <Text style={styles.simulatorLinkText}>USE SIMULATED VEHICLE</Text>
+            </TouchableOpacity>
           </View>
         </View>
       ) : data.isConnected ? (
-        <View style={styles.connectedContainer}>
+        <ScrollView contentContainerStyle={styles.connectedContainer}>
           <View style={styles.connectedBox}>
             <Text style={styles.connectedDevice}>{data.deviceName}</Text>
             <Text style={styles.connectedLabel}>ACTIVE CONNECTION</Text>
           </View>
+
+          {adapterProfile && (
+            <View style={[styles.vehicleInfoBox, adapterProfile.chip === 'clone' && styles.cloneWarningBox]}>
+              <Text style={styles.vehicleInfoTitle}>ADAPTER</Text>
+              <Text style={styles.vehicleInfoText}>
+                {CHIP_LABELS[adapterProfile.chip]} · {adapterProfile.stnDevice ?? adapterProfile.stnIdentity ?? adapterProfile.identity}
+              </Text>
+              {adapterProfile.voltage !== null && (
+                <Text style={styles.vehicleInfoText}>Voltage: {adapterProfile.voltage.toFixed(1)} V</Text>
+              )}
+              {adapterProfile.chip === 'clone' && (
+                <>
+                  <Text style={styles.cloneWarningText}>
+                    ⚠ CLONE DETECTED - slower polling, some features may not work
+                  </Text>
+                  {adapterProfile.cloneReasons.map((reason) => (
+                    <Text key={reason} style={styles.vehicleInfoText}>• {reason}</Text>
+                  ))}
+                </>
+              )}
+            </View>
+          )}
+
+          <View style={styles.vehicleInfoBox}>
+            <Text style={styles.vehicleInfoTitle}>POLLING</Text>
+            {data.protocol !== '' && (
+              <Text style={styles.vehicleInfoText}>Protocol: {ELM_PROTOCOLS[data.protocol]}</Text>
+            )}
+            <Text style={styles.vehicleInfoText}>
+              {data.multiPid ? `Batched, up to ${MAX_PIDS_PER_REQUEST} PIDs per request` : 'One PID per request'}
+            </Text>
+            <Text style={styles.vehicleInfoText}>Sample rate: {data.sampleRate.toFixed(1)} values/s</Text>
+            <Text style={[styles.vehicleInfoText, { color: HEALTH_LABELS[health.status].color }]}>
+              Bus: {HEALTH_LABELS[health.status].label}
+              {health.reinitializations > 0 ? ` · ${health.reinitializations} reinit` : ''}
+            </Text>
+            {health.lastError && (
+              <Text style={styles.vehicleInfoText}>
+                Last error: {health.lastError.response || health.lastError.reason} ({health.lastError.command})
+              </Text>
+            )}
+            {Object.values(health.channels).some(channel => channel.unsupported) && (
+              <Text style={styles.vehicleInfoText}>
+                Not polled (NO DATA): {Object.keys(health.channels).filter(pid => health.channels[pid].unsupported).join(' ')}
+              </Text>
+            )}
+          </View>
+
+          {vehicleInfo && vehicleInfo.vin !== '' && (
+            <View style={styles.vehicleInfoBox}>
+              <Text style={styles.vehicleInfoTitle}>VEHICLE</Text>
+              <Text style={styles.vehicleInfoText}>VIN: {vehicleInfo.vin}</Text>
+              {vehicleInfo.vinInfo && (
+                <Text style={styles.vehicleInfoText}>
+                  {vehicleInfo.vinInfo.manufacturer} · {vehicleInfo.vinInfo.modelYear ?? '----'} · {vehicleInfo.vinInfo.region}
+                </Text>
+              )}
+              {vehicleInfo.ecuNames.map((name) => (
+                <Text key={name} style={styles.vehicleInfoText}>ECU: {name}</Text>
+              ))}
+              {vehicleInfo.calibrationIds.map((id, index) => (
+                <Text key={id} style={styles.vehicleInfoText}>
+                  CAL: {id}{vehicleInfo.cvns[index] ? ` (CVN ${vehicleInfo.cvns[index]})` : ''}
+                </Text>
+              ))}
+            </View>
+          )}
+
+          {data.ecus.filter(ecu => ecu !== '').length > 0 && (
+            <View style={styles.vehicleInfoBox}>
+              <Text style={styles.vehicleInfoTitle}>RESPONDING ECUS</Text>
+              {data.ecus.map((ecu) => (
+                <Text key={ecu} style={styles.vehicleInfoText}>{describeECU(ecu)}</Text>
+              ))}
+            </View>
+          )}
           
           <TouchableOpacity style={styles.disconnectButton} onPress={handleDisconnect}>
             <Text style={styles.disconnectText}>DISCONNECT</Text>
           </TouchableOpacity>
-        </View>
+        </ScrollView>
       ) : (
         <ScrollView style={styles.scrollContent} contentContainerStyle={styles.scrollContentContainer}>
           {/* Debug info */}
@@ -154,39 +305,136 @@ export const ConnectionScreen: React.FC = () => {
             </Text>
           </View>
 
-          <View style={styles.scanSection}>
-            <View style={styles.filterToggle}>
-              <Text style={styles.filterToggleLabel}>
-                Show all Bluetooth devices
+          <View style={styles.transportRow}>
+            {(Object.keys(TRANSPORT_LABELS) as TransportType[]).map((type) => (
+              <TouchableOpacity
+                key={type}
+                style={[styles.transportButton, transportType === type && styles.transportButtonActive]}
+                onPress={() => setTransportType(type)}
+                disabled={isScanning || isConnecting}
+              >
+                <Text style={[styles.transportButtonText, transportType === type && styles.transportButtonTextActive]}>
+                  {TRANSPORT_LABELS[type].toUpperCase()}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+
+          {transportType === 'sim' ? (
+            <View style={styles.scanSection}>
+              <View style={styles.transportRow}>
+                {(Object.keys(SIMULATOR_SCENARIOS) as SimulatorScenario[]).map((scenario) => (
+                  <TouchableOpacity
+                    key={scenario}
+                    style={[styles.transportButton, simScenario === scenario && styles.transportButtonActive]}
+                    onPress={() => setSimScenario(scenario)}
+                    disabled={isConnecting}
+                  >
+                    <Text style={[styles.transportButtonText, simScenario === scenario && styles.transportButtonTextActive]}>
+                      {SIMULATOR_SCENARIOS[scenario].toUpperCase()}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              {renderFaultToggle('Inject NO DATA replies', simNoData, setSimNoData)}
+              {renderFaultToggle('Inject CAN ERROR replies', simCanErrors, setSimCanErrors)}
+              {renderFaultToggle('Slow replies', simSlowReplies, setSimSlowReplies)}
+              {renderFaultToggle('Emulate "v2.1" clone', simClone, setSimClone)}
+
+              <TouchableOpacity 
+                style={[styles.scanButton, isConnecting && styles.scanButtonActive]}
+                onPress={handleConnectSimulator}
+                disabled={isConnecting}
+              >
+                {isConnecting ? (
+                  <ActivityIndicator color={colors.background} size="small" />
+                ) : (
+                  <Text style={styles.scanButtonText}>CONNECT</Text>
+                )}
+              </TouchableOpacity>
+
+              <Text style={styles.scanningText}>
+                Built-in ELM327 emulator with a scripted engine - no adapter needed
               </Text>
-              <Switch
-                value={showAllDevices}
-                onValueChange={setShowAllDevices}
-                trackColor={{ false: colors.gaugeBorder, true: colors.primary }}
-                thumbColor={colors.background}
-                disabled={isScanning}
-              />
             </View>
-            
-            <TouchableOpacity 
-              style={[styles.scanButton, isScanning && styles.scanButtonActive]}
-              onPress={handleScan}
-            >
-              {isScanning ? (
-                <ActivityIndicator color={colors.background} size="small" />
-              ) : (
-                <Text style={styles.scanButtonText}>SCAN FOR DEVICES</Text>
-              )}
-            </TouchableOpacity>
-            
-            {isScanning && (
+          ) : transportType === 'tcp' ? (
+            <View style={styles.scanSection}>
+              <View style={styles.wifiForm}>
+                <TextInput
+                  style={[styles.wifiInput, styles.wifiHostInput]}
+                  value={wifiHost}
+                  onChangeText={setWifiHost}
+                  placeholder={DEFAULT_WIFI_HOST}
+                  placeholderTextColor={colors.textDim}
+                  autoCapitalize="none"
+                  keyboardType="numbers-and-punctuation"
+                />
+                <TextInput
+                  style={styles.wifiInput}
+                  value={wifiPort}
+                  onChangeText={setWifiPort}
+                  placeholder={DEFAULT_WIFI_PORT.toString()}
+                  placeholderTextColor={colors.textDim}
+                  keyboardType="numeric"
+                />
+              </View>
+
+              <TouchableOpacity 
+                style={[styles.scanButton, isConnecting && styles.scanButtonActive]}
+                onPress={handleConnectWifi}
+                disabled={isConnecting}
+              >
+                {isConnecting ? (
+                  <ActivityIndicator color={colors.background} size="small" />
+                ) : (
+                  <Text style={styles.scanButtonText}>CONNECT</Text>
+                )}
+              </TouchableOpacity>
+
               <Text style={styles.scanningText}>
-                {showAllDevices 
-                  ? 'Scanning for all Bluetooth devices...' 
-                  : 'Scanning for OBD adapters...'}
+                Join the adapter's Wi-Fi network (often "WiFi_OBDII") before connecting
               </Text>
-            )}
-          </View>
+            </View>
+          ) : (
+            <View style={styles.scanSection}>
+              {transportType === 'ble' && (
+                <View style={styles.filterToggle}>
+                  <Text style={styles.filterToggleLabel}>
+                    Show all Bluetooth devices
+                  </Text>
+                  <Switch
+                    value={showAllDevices}
+                    onValueChange={setShowAllDevices}
+                    trackColor={{ false: colors.gaugeBorder, true: colors.primary }}
+                    thumbColor={colors.background}
+                    disabled={isScanning}
+                  />
+                </View>
+              )}
+            
+              <TouchableOpacity 
+                style={[styles.scanButton, isScanning && styles.scanButtonActive]}
+                onPress={handleScan}
+              >
+                {isScanning ? (
+                  <ActivityIndicator color={colors.background} size="small" />
+                ) : (
+                  <Text style={styles.scanButtonText}>
+                    {transportType === 'spp' ? 'SHOW PAIRED DEVICES' : 'SCAN FOR DEVICES'}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            
+              {isScanning && (
+                <Text style={styles.scanningText}>
+                  {showAllDevices 
+                    ? 'Scanning for all Bluetooth devices...' 
+                    : 'Scanning for OBD adapters...'}
+                </Text>
+              )}
+            </View>
+          )}
 
           {error && (
             <View style={styles.errorBox}>
@@ -194,49 +442,61 @@ export const ConnectionScreen: React.FC = () => {
             </View>
           )}
 
-          <View style={styles.deviceListContainer}>
-            {availableDevices.length > 0 ? (
-              <>
-                <View style={styles.deviceListHeader}>
-                  <Text style={styles.deviceListHeaderText}>
-                    FOUND {availableDevices.length} DEVICE{availableDevices.length !== 1 ? 'S' : ''}
+          {(transportType === 'ble' || transportType === 'spp') && (
+            <View style={styles.deviceListContainer}>
+              {availableDevices.length > 0 ? (
+                <>
+                  <View style={styles.deviceListHeader}>
+                    <Text style={styles.deviceListHeaderText}>
+                      FOUND {availableDevices.length} DEVICE{availableDevices.length !== 1 ? 'S' : ''}
+                    </Text>
+                  </View>
+                
+                  {availableDevices.map((item) => renderDevice({ item }))}
+                </>
+              ) : !isScanning && transportType === 'spp' ? (
+                <View style={styles.emptyState}>
+                  <Text style={styles.emptyText}>No paired adapters</Text>
+                  <Text style={styles.emptySubtext}>
+                    Classic Bluetooth adapters must be paired first:
+                    {'\n'}• Open your phone's Bluetooth settings
+                    {'\n'}• Pair with the adapter (PIN is usually 1234 or 0000)
+                    {'\n'}• Come back and tap "Show Paired Devices"
                   </Text>
                 </View>
-                
-                {availableDevices.map((item) => renderDevice({ item }))}
-              </>
-            ) : !isScanning ? (
-              <View style={styles.emptyState}>
-                <Text style={styles.emptyText}>
-                  {showAllDevices ? 'No Bluetooth devices found' : 'No OBD devices found'}
-                </Text>
-                <Text style={styles.emptySubtext}>
-                  {showAllDevices ? (
-                    <>
-                      No Bluetooth devices were detected.
-                      {'\n\n'}Make sure:
-                      {'\n'}• Bluetooth is enabled on your phone
-                      {'\n'}• Your OBD adapter is powered on
-                      {'\n'}• Car ignition is ON
-                      {'\n'}• The adapter is within range
-                    </>
-                  ) : (
-                    <>
-                      Make sure your OBD-II adapter is:
-                      {'\n'}• Plugged into the car's OBD port
-                      {'\n'}• Powered on (ignition ON)
-                      {'\n'}• Within range (under dashboard)
-                      {'\n'}• Not paired in phone Bluetooth settings
-                      {'\n\n'}
-                      <Text style={styles.debugHighlight}>Can't find your adapter?</Text>
-                      {'\n'}1. Check the console logs for all detected devices
-                      {'\n'}2. Try enabling "Show all Bluetooth devices" above
-                    </>
-                  )}
-                </Text>
-              </View>
-            ) : null}
-          </View>
+              ) : !isScanning ? (
+                <View style={styles.emptyState}>
+                  <Text style={styles.emptyText}>
+                    {showAllDevices ? 'No Bluetooth devices found' : 'No OBD devices found'}
+                  </Text>
+                  <Text style={styles.emptySubtext}>
+                    {showAllDevices ? (
+                      <>
+                        No Bluetooth devices were detected.
+                        {'\n\n'}Make sure:
+                        {'\n'}• Bluetooth is enabled on your phone
+                        {'\n'}• Your OBD adapter is powered on
+                        {'\n'}• Car ignition is ON
+                        {'\n'}• The adapter is within range
+                      </>
+                    ) : (
+                      <>
+                        Make sure your OBD-II adapter is:
+                        {'\n'}• Plugged into the car's OBD port
+                        {'\n'}• Powered on (ignition ON)
+                        {'\n'}• Within range (under dashboard)
+                        {'\n'}• Not paired in phone Bluetooth settings
+                        {'\n\n'}
+                        <Text style={styles.debugHighlight}>Can't find your adapter?</Text>
+                        {'\n'}1. Check the console logs for all detected devices
+                        {'\n'}2. Try enabling "Show all Bluetooth devices" above
+                      </>
+                    )}
+                  </Text>
+                </View>
+              ) : null}
+            </View>
+          )}
 
           <View style={styles.instructions}>
         <Text style={styles.instructionTitle}>SETUP INSTRUCTIONS</Text>
@@ -289,15 +549,29 @@ const styles = StyleSheet.create({
     borderRadius: 5,
     marginRight: 8,
   },
+  cancelReconnect: {
+    borderWidth: 1,
+    borderColor: colors.danger,
+    paddingVertical: 2,
+    paddingHorizontal: 8,
+    marginLeft: 12,
+  },
+  cancelReconnectText: {
+    color: colors.danger,
+    fontSize: 10,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
   statusText: {
     color: colors.textSecondary,
     fontSize: 12,
     fontFamily: 'monospace',
   },
   connectedContainer: {
-    flex: 1,
+    flexGrow: 1,
     justifyContent: 'center',
     alignItems: 'center',
+    paddingBottom: 16,
   },
   connectedBox: {
     backgroundColor: colors.gaugeBackground,
@@ -320,6 +594,37 @@ const styles = StyleSheet.create({
     fontFamily: 'monospace',
     letterSpacing: 2,
   },
+  vehicleInfoBox: {
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.gaugeBorder,
+    padding: 12,
+    marginBottom: 24,
+    minWidth: 260,
+  },
+  vehicleInfoTitle: {
+    color: colors.textDim,
+    fontSize: 10,
+    fontFamily: 'monospace',
+    letterSpacing: 2,
+    marginBottom: 6,
+  },
+  vehicleInfoText: {
+    color: colors.textSecondary,
+    fontSize: 11,
+    fontFamily: 'monospace',
+    lineHeight: 18,
+  },
+  cloneWarningBox: {
+    borderColor: colors.warning,
+  },
+  cloneWarningText: {
+    color: colors.warning,
+    fontSize: 11,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    marginVertical: 4,
+  },
   disconnectButton: {
     backgroundColor: 'rgba(255, 51, 102, 0.1)',
     borderWidth: 1,
@@ -334,6 +639,52 @@ const styles = StyleSheet.create({
     fontWeight: 'bold',
     letterSpacing: 2,
   },
+  transportRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  transportButton: {
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.gaugeBorder,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+  },
+  transportButtonActive: {
+    borderColor: colors.primary,
+    backgroundColor: 'rgba(0, 255, 136, 0.1)',
+  },
+  transportButtonText: {
+    color: colors.textDim,
+    fontSize: 10,
+    fontFamily: 'monospace',
+  },
+  transportButtonTextActive: {
+    color: colors.primary,
+    fontWeight: 'bold',
+  },
+  wifiForm: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 12,
+  },
+  wifiInput: {
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.gaugeBorder,
+    color: colors.textPrimary,
+    fontSize: 14,
+    fontFamily: 'monospace',
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    minWidth: 80,
+  },
+  wifiHostInput: {
+    minWidth: 160,
+  },
   scanSection: {
     marginBottom: 16,
     alignItems: 'center',
@@ -581,6 +932,21 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontStyle: 'italic',
   },
+  simulatorLink: {
+    borderWidth: 1,
+    borderColor: colors.primary,
+    paddingVertical: 10,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  simulatorLinkText: {
+    color: colors.primary,
+    fontSize: 11,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
 });
 
 export default ConnectionScreen;
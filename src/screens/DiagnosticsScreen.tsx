@@ -0,0 +1,495 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { ReadinessPanel, MonitorTestList, PollingStatsPanel } from '../components';
+import { useOBD, useDiagnostics, useVehicleSettings } from '../hooks';
+import { colors } from '../theme/colors';
+import type { DiagnosticTroubleCode, DTCType } from '../services/DTCCodes';
+import type { FreezeFrame, OBDData } from '../services/OBDService';
+
+const TYPE_LABELS: Record<DTCType, string> = {
+  stored: 'STORED',
+  pending: 'PENDING',
+  permanent: 'PERMANENT',
+};
+
+const TYPE_COLORS: Record<DTCType, string> = {
+  stored: colors.danger,
+  pending: colors.warning,
+  permanent: colors.secondary,
+};
+
+// Freeze frame fields in display order
+const FREEZE_FRAME_FIELDS: { key: keyof OBDData; label: string; unit: string; digits?: number }[] = [
+  { key: 'rpm', label: 'RPM', unit: 'rpm' },
+  { key: 'speed', label: 'SPEED', unit: 'km/h' },
+  { key: 'coolantTemp', label: 'COOLANT', unit: '°C' },
+  { key: 'engineLoad', label: 'LOAD', unit: '%' },
+  { key: 'throttlePosition', label: 'THROTTLE', unit: '%' },
+  { key: 'acceleratorPosition', label: 'PEDAL', unit: '%' },
+  { key: 'boostPressure', label: 'BOOST', unit: 'kPa' },
+  { key: 'mafRate', label: 'MAF', unit: 'g/s', digits: 1 },
+  { key: 'intakeAirTemp', label: 'INTAKE', unit: '°C' },
+  { key: 'fuelPressure', label: 'FUEL PRESS', unit: 'kPa' },
+  { key: 'fuelRate', label: 'FUEL RATE', unit: 'L/h', digits: 1 },
+  { key: 'egrCommanded', label: 'EGR CMD', unit: '%' },
+  { key: 'egrError', label: 'EGR ERROR', unit: '%' },
+  { key: 'batteryVoltage', label: 'BATTERY', unit: 'V', digits: 1 },
+  { key: 'runTime', label: 'RUN TIME', unit: 's' },
+];
+
+export const DiagnosticsScreen: React.FC = () => {
+  const { data: obd, pollingStats } = useOBD();
+  const { settings } = useVehicleSettings();
+  const {
+    codes,
+    freezeFrames,
+    readiness,
+    monitorTests,
+    isReading,
+    isReadingReadiness,
+    isReadingTests,
+    isClearing,
+    lastRead,
+    error,
+    readCodes,
+    clearCodes,
+    readReadiness,
+    readMonitorTests,
+  } = useDiagnostics();
+  const isBusy = isReading || isReadingReadiness || isReadingTests || isClearing;
+
+  // Frames whose triggering code is not in the current list still get shown
+  const unmatchedFrames = freezeFrames.filter(
+    frame => !codes.some(dtc => dtc.type === 'stored' && dtc.code === frame.dtc)
+  );
+
+  // Clearing resets readiness monitors, so require an explicit confirmation
+  const handleClear = () => {
+    Alert.alert(
+      'Clear Trouble Codes',
+      'This erases stored codes and freeze frame data and resets emissions readiness monitors. ' +
+        'The check engine light will come back if the fault is still present.\n\nEngine should be off, ignition on.',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Clear',
+          style: 'destructive',
+          onPress: async () => {
+            const cleared = await clearCodes();
+            if (cleared) {
+              Alert.alert('Cleared', 'Trouble codes have been cleared.');
+            }
+          }
+        },
+      ]
+    );
+  };
+
+  const renderFreezeFrame = (frame: FreezeFrame) => {
+    const fields = FREEZE_FRAME_FIELDS.filter(field => typeof frame.data[field.key] === 'number');
+
+    return (
+      <View key={`frame-${frame.frame}`} style={styles.freezeFrame}>
+        <Text style={styles.freezeFrameTitle}>
+          FREEZE FRAME {frame.frame}{frame.dtc ? ` · ${frame.dtc}` : ''}
+        </Text>
+        {fields.length > 0 ? (
+          <View style={styles.freezeFrameGrid}>
+            {fields.map(field => (
+              <View key={field.key} style={styles.freezeFrameItem}>
+                <Text style={styles.freezeFrameLabel}>{field.label}</Text>
+                <Text style={styles.freezeFrameValue}>
+                  {(frame.data[field.key] as number).toFixed(field.digits ?? 0)} {field.unit}
+                </Text>
+              </View>
+            ))}
+          </View>
+        ) : (
+          <Text style={styles.freezeFrameLabel}>No snapshot data reported</Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderCode = (dtc: DiagnosticTroubleCode) => (
+    <View key={`${dtc.type}-${dtc.code}`} style={[styles.codeItem, { borderColor: TYPE_COLORS[dtc.type] }]}>
+      <View style={styles.codeHeader}>
+        <Text style={[styles.codeText, { color: TYPE_COLORS[dtc.type] }]}>{dtc.code}</Text>
+        <View style={[styles.typeBadge, { backgroundColor: TYPE_COLORS[dtc.type] }]}>
+          <Text style={styles.typeBadgeText}>{TYPE_LABELS[dtc.type]}</Text>
+        </View>
+      </View>
+      <Text style={styles.codeDescription}>{dtc.description}</Text>
+      <Text style={styles.codeSystem}>{dtc.system.toUpperCase()}</Text>
+      {dtc.type === 'stored' &&
+        freezeFrames.filter(frame => frame.dtc === dtc.code).map(renderFreezeFrame)}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar style="light" />
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.header}>
+          <Text style={styles.title}>DIAGNOSTICS</Text>
+          <View style={styles.statusRow}>
+            <View style={[
+              styles.statusDot,
+              { backgroundColor: obd.isConnected ? colors.primary : colors.danger }
+            ]} />
+            <Text style={styles.statusText}>
+              {obd.isConnected ? `Connected: ${obd.deviceName}` : 'Disconnected'}
+            </Text>
+          </View>
+        </View>
+
+        {/* Summary */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>TROUBLE CODES</Text>
+          <View style={styles.card}>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Codes found:</Text>
+              <Text style={[styles.summaryValue, { color: codes.length > 0 ? colors.danger : colors.primary }]}>
+                {lastRead ? codes.length : '--'}
+              </Text>
+            </View>
+            <View style={styles.summaryRow}>
+              <Text style={styles.summaryLabel}>Distance with MIL on:</Text>
+              <Text style={styles.summaryValue}>{obd.distanceWithMIL} km</Text>
+            </View>
+            {lastRead && (
+              <View style={styles.summaryRow}>
+                <Text style={styles.summaryLabel}>Last read:</Text>
+                <Text style={styles.summaryValue}>{lastRead.toLocaleTimeString()}</Text>
+              </View>
+            )}
+
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.readButton, (!obd.isConnected || isReading) && styles.buttonDisabled]}
+                onPress={readCodes}
+                disabled={!obd.isConnected || isBusy}
+              >
+                {isReading ? (
+                  <ActivityIndicator color={colors.background} size="small" />
+                ) : (
+                  <Text style={styles.readButtonText}>READ CODES</Text>
+                )}
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[styles.clearButton, (!obd.isConnected || isClearing) && styles.buttonDisabled]}
+                onPress={handleClear}
+                disabled={!obd.isConnected || isBusy}
+              >
+                {isClearing ? (
+                  <ActivityIndicator color={colors.danger} size="small" />
+                ) : (
+                  <Text style={styles.clearButtonText}>CLEAR</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+
+        {error && (
+          <View style={styles.errorBox}>
+            <Text style={styles.errorText}>{error}</Text>
+          </View>
+        )}
+
+        {/* Code list */}
+        {codes.length > 0 ? (
+          <View style={styles.section}>
+            {codes.map(renderCode)}
+            {unmatchedFrames.map(renderFreezeFrame)}
+          </View>
+        ) : lastRead ? (
+          <View style={styles.emptyState}>
+            <Text style={styles.emptyText}>No trouble codes</Text>
+            <Text style={styles.emptySubtext}>The ECU reported no stored, pending or permanent codes.</Text>
+          </View>
+        ) : null}
+
+        {/* Emissions readiness */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>EMISSIONS READINESS</Text>
+          {readiness?.sinceClear ? (
+            <ReadinessPanel
+              sinceClear={readiness.sinceClear}
+              thisDriveCycle={readiness.thisDriveCycle}
+            />
+          ) : readiness ? (
+            <Text style={styles.emptySubtext}>The ECU does not report monitor status (PID 0101).</Text>
+          ) : null}
+          <TouchableOpacity
+            style={[styles.readButton, styles.sectionButton, !obd.isConnected && styles.buttonDisabled]}
+            onPress={readReadiness}
+            disabled={!obd.isConnected || isBusy}
+          >
+            {isReadingReadiness ? (
+              <ActivityIndicator color={colors.background} size="small" />
+            ) : (
+              <Text style={styles.readButtonText}>READ MONITORS</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Mode 06 test results */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>ON-BOARD MONITOR TESTS</Text>
+          {monitorTests && monitorTests.length > 0 ? (
+            <MonitorTestList results={monitorTests} />
+          ) : monitorTests ? (
+            <Text style={styles.emptySubtext}>The ECU reported no Mode 06 test results.</Text>
+          ) : null}
+          <TouchableOpacity
+            style={[styles.readButton, styles.sectionButton, !obd.isConnected && styles.buttonDisabled]}
+            onPress={readMonitorTests}
+            disabled={!obd.isConnected || isBusy}
+          >
+            {isReadingTests ? (
+              <ActivityIndicator color={colors.background} size="small" />
+            ) : (
+              <Text style={styles.readButtonText}>READ TEST RESULTS</Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* Live data scheduler */}
+        {obd.isConnected && pollingStats && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>POLLING BUDGET</Text>
+            <PollingStatsPanel
+              stats={pollingStats}
+              names={Object.fromEntries(settings.customPids.map(pid => [pid.id, pid.name]))}
+            />
+          </View>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    marginBottom: 24,
+  },
+  title: {
+    color: colors.primary,
+    fontSize: 18,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    letterSpacing: 2,
+    marginBottom: 12,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  statusText: {
+    color: colors.textSecondary,
+    fontSize: 12,
+    fontFamily: 'monospace',
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    color: colors.textDim,
+    fontSize: 10,
+    fontFamily: 'monospace',
+    letterSpacing: 2,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.gaugeBorder,
+    padding: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  summaryLabel: {
+    color: colors.textDim,
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  summaryValue: {
+    color: colors.textSecondary,
+    fontSize: 11,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 8,
+  },
+  readButton: {
+    flex: 1,
+    backgroundColor: colors.primary,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  readButtonText: {
+    color: colors.background,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
+  sectionButton: {
+    flex: 0,
+    marginTop: 12,
+  },
+  clearButton: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: colors.danger,
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+  },
+  clearButtonText: {
+    color: colors.danger,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+  errorBox: {
+    backgroundColor: 'rgba(255, 51, 102, 0.1)',
+    borderWidth: 1,
+    borderColor: colors.danger,
+    padding: 12,
+    marginBottom: 16,
+  },
+  errorText: {
+    color: colors.danger,
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  codeItem: {
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    padding: 12,
+    marginBottom: 12,
+  },
+  codeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 6,
+  },
+  codeText: {
+    fontSize: 18,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    letterSpacing: 2,
+  },
+  typeBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+  },
+  typeBadgeText: {
+    color: colors.background,
+    fontSize: 9,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
+  codeDescription: {
+    color: colors.textPrimary,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    lineHeight: 18,
+  },
+  codeSystem: {
+    color: colors.textDim,
+    fontSize: 9,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+    marginTop: 4,
+  },
+  freezeFrame: {
+    backgroundColor: colors.background,
+    borderWidth: 1,
+    borderColor: colors.gaugeBorder,
+    padding: 10,
+    marginTop: 10,
+  },
+  freezeFrameTitle: {
+    color: colors.textDim,
+    fontSize: 9,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+    marginBottom: 8,
+  },
+  freezeFrameGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  freezeFrameItem: {
+    width: '50%',
+    marginBottom: 6,
+  },
+  freezeFrameLabel: {
+    color: colors.textDim,
+    fontSize: 8,
+    fontFamily: 'monospace',
+  },
+  freezeFrameValue: {
+    color: colors.primary,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    color: colors.primary,
+    fontSize: 14,
+    fontFamily: 'monospace',
+    marginBottom: 8,
+  },
+  emptySubtext: {
+    color: colors.textDim,
+    fontSize: 11,
+    fontFamily: 'monospace',
+    textAlign: 'center',
+  },
+});
+
+export default DiagnosticsScreen;
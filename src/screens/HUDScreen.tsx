@@ -5,9 +5,23 @@ import { useKeepAwake } from 'expo-keep-awake';
 import { CompassHUD, ArtificialHorizon, SpeedIndicator, AltitudeIndicator, GaugeArc, DataBox, GForceMeter } from '../components';
 import { useCompass, useLocation, useOBD, useCalibratedSensors, useVehicleSettings } from '../hooks';
 import { colors } from '../theme/colors';
+import { channelRange } from '../services/PIDRegistry';
+import type { ConnectionState, OBDData } from '../services/OBDService';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
+const STATUS_COLORS: Record<ConnectionState, string> = {
+  connected: colors.primary,
+  connecting: colors.warning,
+  reconnecting: colors.warning,
+  disconnected: colors.danger,
+};
+
+// OBD channels on the HUD - only these are polled at full rate here
+const HUD_CHANNELS: Array<keyof OBDData> = [
+  'rpm', 'speed', 'boostPressure', 'coolantTemp', 'engineLoad', 'oilTemp', 'fuelLevel', 'fuelRate',
+];
+
 export const HUDScreen: React.FC = () => {
   // Keep screen awake while driving
   useKeepAwake();
@@ -16,7 +30,7 @@ export const HUDScreen: React.FC = () => {
   const sensors = useCalibratedSensors();
   const compass = useCompass();
   const location = useLocation();
-  const { data: obdData } = useOBD();
+  const { data: obdData, isChannelSupported, isStale } = useOBD(HUD_CHANNELS);
   const { settings, calculateFuel } = useVehicleSettings();
 
   // Use GPS heading if available and moving, otherwise calibrated sensor heading
@@ -46,7 +60,7 @@ export const HUDScreen: React.FC = () => {
         {/* Left - Speed tape */}
         <View style={styles.tapeColumn}>
           <SpeedIndicator 
-            speed={obdData.isConnected ? obdData.speed : location.speed}
+            speed={obdData.isConnected && !isStale('speed') ? obdData.speed : location.speed}
             unit="kmh"
             height={220}
             width={55}
@@ -113,8 +127,9 @@ export const HUDScreen: React.FC = () => {
         <View style={styles.gaugeColumn}>
           <GaugeArc
             value={obdData.rpm}
-            min={0}
-            max={5000}
+            unavailable={!isChannelSupported('rpm')}
+            stale={isStale('rpm')}
+            {...channelRange('rpm')}
             label="RPM"
             unit=""
             size={85}
@@ -124,8 +139,9 @@ export const HUDScreen: React.FC = () => {
           
           <GaugeArc
             value={obdData.boostPressure}
-            min={0}
-            max={250}
+            unavailable={!isChannelSupported('boostPressure')}
+            stale={isStale('boostPressure')}
+            {...channelRange('boostPressure')}
             label="BOOST"
             unit="kPa"
             size={85}
@@ -135,8 +151,9 @@ export const HUDScreen: React.FC = () => {
           
           <GaugeArc
             value={obdData.coolantTemp}
-            min={0}
-            max={130}
+            unavailable={!isChannelSupported('coolantTemp')}
+            stale={isStale('coolantTemp')}
+            {...channelRange('coolantTemp')}
             label="TEMP"
             unit="°C"
             size={85}
@@ -149,8 +166,10 @@ export const HUDScreen: React.FC = () => {
       {/* Bottom section - Data readouts (diesel-optimized) */}
       <View style={styles.bottomSection}>
         <DataBox
-          label="FUEL L/H"
+          label={obdData.fuelRateSource === 'pid' ? 'FUEL L/H' : 'FUEL L/H EST'}
           value={obdData.fuelRate.toFixed(1)}
+          unavailable={!isChannelSupported('fuelRate')}
+          stale={isStale('fuelRate')}
           unit=""
           color={colors.secondary}
           size="small"
@@ -158,6 +177,8 @@ export const HUDScreen: React.FC = () => {
         <DataBox
           label="LOAD"
           value={obdData.engineLoad}
+          unavailable={!isChannelSupported('engineLoad')}
+          stale={isStale('engineLoad')}
           unit="%"
           color={colors.primary}
           size="small"
@@ -165,6 +186,8 @@ export const HUDScreen: React.FC = () => {
         <DataBox
           label="OIL"
           value={obdData.oilTemp}
+          unavailable={!isChannelSupported('oilTemp')}
+          stale={isStale('oilTemp')}
           unit="°C"
           color={obdData.oilTemp > 120 ? colors.warning : colors.primary}
           size="small"
@@ -173,6 +196,7 @@ export const HUDScreen: React.FC = () => {
           label="TANK"
           value={`${fuelData.fuelRemaining.toFixed(0)}L`}
           unit={`/${settings.fuelTankCapacity}L`}
+          stale={isStale('fuelLevel')}
           color={fuelData.fuelRemaining < 10 ? colors.danger : fuelData.fuelRemaining < 15 ? colors.warning : colors.primary}
           size="small"
         />
@@ -180,6 +204,7 @@ export const HUDScreen: React.FC = () => {
           label="RANGE"
           value={fuelData.range}
           unit="km"
+          stale={isStale('fuelLevel')}
           color={fuelData.range < 50 ? colors.danger : fuelData.range < 100 ? colors.warning : colors.secondary}
           size="small"
         />
@@ -191,11 +216,11 @@ export const HUDScreen: React.FC = () => {
         />
       </View>
 
-      {/* Connection status indicator */}
+      {/* Connection status indicator - amber while (re)connecting */}
       <View style={styles.statusIndicator}>
         <View style={[
           styles.statusDot,
-          { backgroundColor: obdData.isConnected ? colors.primary : colors.danger }
+          { backgroundColor: STATUS_COLORS[obdData.connectionState] }
         ]} />
       </View>
     </View>
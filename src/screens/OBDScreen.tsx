@@ -2,11 +2,58 @@ import React from 'react';
 import { View, Text, StyleSheet, ScrollView } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
 import { GaugeArc, DataBox } from '../components';
-import { useOBD } from '../hooks';
+import { useOBD, useVehicleSettings } from '../hooks';
 import { colors } from '../theme/colors';
+import { channelRange } from '../services/PIDRegistry';
+import type { OBDData } from '../services/OBDService';
+import type { CustomPIDId } from '../services/CustomPIDs';
+import { VEHICLE_PACKS, D4D_PIDS } from '../services/VehiclePacks';
+
+// Injector compensation beyond this (mm³/stroke) points at a worn injector
+const INJECTOR_CORRECTION_LIMIT = 3;
+// Sustained exhaust temperatures above this (°C) stress the turbo
+const EGT_WARNING = 750;
+// Filter pressure drop (kPa) that usually means it is due a regeneration
+const DPF_PRESSURE_WARNING = 20;
+
+// Standard diesel PIDs (0123, 0170-018E), mostly reported by 2010+ ECUs
+const DIESEL_CHANNELS: Array<keyof OBDData> = [
+  'fuelRailPressure', 'boostCommanded', 'boostActual', 'turboRpm',
+  'egtBank1', 'egtBank2', 'dpfPressureBank1', 'dpfPressureBank2', 'dpfInletTemp',
+  'noxConcentration', 'frictionTorque',
+];
+
+// Every channel shown on this screen
+const OBD_SCREEN_CHANNELS: Array<keyof OBDData> = [
+  'rpm', 'speed', 'engineLoad', 'throttlePosition', 'acceleratorPosition',
+  'boostPressure', 'mafRate', 'intakeAirTemp', 'barometricPressure',
+  'coolantTemp', 'oilTemp', 'ambientTemp',
+  'fuelLevel', 'fuelRate', 'fuelPressure',
+  'actualTorque', 'referenceTorque', 'egrCommanded', 'egrError',
+  'batteryVoltage', 'runTime',
+  ...DIESEL_CHANNELS,
+];
 
 export const OBDScreen: React.FC = () => {
-  const { data: obd, isBleAvailable } = useOBD();
+  const { settings } = useVehicleSettings();
+  const showD4D = settings.vehiclePack === 'toyota-1cd-ftv';
+  const channels: Array<keyof OBDData | CustomPIDId> = [
+    ...OBD_SCREEN_CHANNELS,
+    ...settings.customPids.map(pid => pid.id),
+    ...(showD4D ? VEHICLE_PACKS['toyota-1cd-ftv'].pids.map(pid => pid.id) : []),
+  ];
+  const { data: obd, isBleAvailable, isChannelSupported, isStale } = useOBD(channels);
+
+  // Only once the ECU has listed its PIDs - before that every channel counts as supported
+  const showDiesel = obd.supportedPids.length > 0 && DIESEL_CHANNELS.some(isChannelSupported);
+
+  // D-4D pack values, undefined until the engine ECU has answered
+  const d4d = (id: CustomPIDId): number | undefined => obd.customValues[id];
+  const boostTarget = d4d(D4D_PIDS.boostTarget);
+  const boostActual = d4d(D4D_PIDS.boostActual);
+  const boostError = boostTarget !== undefined && boostActual !== undefined
+    ? Math.round(boostActual - boostTarget)
+    : undefined;
 
   // Safe format function to prevent crashes on undefined values
   const fmt = (v: number | null | undefined, digits = 1): string =>
@@ -39,8 +86,9 @@ export const OBDScreen: React.FC = () => {
           <View style={styles.gaugeRow}>
             <GaugeArc
               value={obd.rpm}
-              min={0}
-              max={5000}
+              unavailable={!isChannelSupported('rpm')}
+              stale={isStale('rpm')}
+              {...channelRange('rpm')}
               label="RPM"
               unit="×100"
               size={130}
@@ -50,8 +98,9 @@ export const OBDScreen: React.FC = () => {
             
             <GaugeArc
               value={obd.speed}
-              min={0}
-              max={200}
+              unavailable={!isChannelSupported('speed')}
+              stale={isStale('speed')}
+              {...channelRange('speed')}
               label="SPEED"
               unit="KM/H"
               size={130}
@@ -60,8 +109,9 @@ export const OBDScreen: React.FC = () => {
             
             <GaugeArc
               value={obd.boostPressure}
-              min={0}
-              max={250}
+              unavailable={!isChannelSupported('boostPressure')}
+              stale={isStale('boostPressure')}
+              {...channelRange('boostPressure')}
               label="BOOST"
               unit="kPa"
               size={130}
@@ -71,8 +121,9 @@ export const OBDScreen: React.FC = () => {
             
             <GaugeArc
               value={obd.engineLoad}
-              min={0}
-              max={100}
+              unavailable={!isChannelSupported('engineLoad')}
+              stale={isStale('engineLoad')}
+              {...channelRange('engineLoad')}
               label="LOAD"
               unit="%"
               size={130}
@@ -86,8 +137,9 @@ export const OBDScreen: React.FC = () => {
           <View style={styles.gaugeRow}>
             <GaugeArc
               value={obd.coolantTemp}
-              min={0}
-              max={130}
+              unavailable={!isChannelSupported('coolantTemp')}
+              stale={isStale('coolantTemp')}
+              {...channelRange('coolantTemp')}
               label="COOLANT"
               unit="°C"
               size={110}
@@ -97,8 +149,9 @@ export const OBDScreen: React.FC = () => {
             
             <GaugeArc
               value={obd.oilTemp}
-              min={0}
-              max={150}
+              unavailable={!isChannelSupported('oilTemp')}
+              stale={isStale('oilTemp')}
+              {...channelRange('oilTemp')}
               label="OIL"
               unit="°C"
               size={110}
@@ -108,8 +161,9 @@ export const OBDScreen: React.FC = () => {
             
             <GaugeArc
               value={obd.intakeAirTemp}
-              min={-20}
-              max={80}
+              unavailable={!isChannelSupported('intakeAirTemp')}
+              stale={isStale('intakeAirTemp')}
+              {...channelRange('intakeAirTemp')}
               label="INTAKE"
               unit="°C"
               size={110}
@@ -118,8 +172,9 @@ export const OBDScreen: React.FC = () => {
             
             <GaugeArc
               value={obd.ambientTemp}
-              min={-20}
-              max={50}
+              unavailable={!isChannelSupported('ambientTemp')}
+              stale={isStale('ambientTemp')}
+              {...channelRange('ambientTemp')}
               label="AMBIENT"
               unit="°C"
               size={110}
@@ -135,14 +190,18 @@ export const OBDScreen: React.FC = () => {
             <DataBox
               label="FUEL LEVEL"
               value={obd.fuelLevel}
+              unavailable={!isChannelSupported('fuelLevel')}
+              stale={isStale('fuelLevel')}
               unit="%"
               color={obd.fuelLevel < 15 ? colors.danger : obd.fuelLevel < 25 ? colors.warning : colors.primary}
               size="medium"
             />
             
             <DataBox
-              label="FUEL RATE"
+              label={obd.fuelRateSource === 'pid' ? 'FUEL RATE' : 'FUEL RATE EST'}
               value={fmt(obd.fuelRate, 1)}
+              unavailable={!isChannelSupported('fuelRate')}
+              stale={isStale('fuelRate')}
               unit="L/h"
               color={colors.secondary}
               size="medium"
@@ -151,6 +210,8 @@ export const OBDScreen: React.FC = () => {
             <DataBox
               label="FUEL PRESSURE"
               value={obd.fuelPressure}
+              unavailable={!isChannelSupported('fuelPressure')}
+              stale={isStale('fuelPressure')}
               unit="kPa"
               color={colors.primary}
               size="medium"
@@ -159,6 +220,8 @@ export const OBDScreen: React.FC = () => {
             <DataBox
               label="MAF RATE"
               value={fmt(obd.mafRate, 1)}
+              unavailable={!isChannelSupported('mafRate')}
+              stale={isStale('mafRate')}
               unit="g/s"
               color={colors.secondary}
               size="medium"
@@ -172,8 +235,9 @@ export const OBDScreen: React.FC = () => {
           <View style={styles.gaugeRow}>
             <GaugeArc
               value={obd.throttlePosition}
-              min={0}
-              max={100}
+              unavailable={!isChannelSupported('throttlePosition')}
+              stale={isStale('throttlePosition')}
+              {...channelRange('throttlePosition')}
               label="THROTTLE"
               unit="%"
               size={110}
@@ -182,8 +246,9 @@ export const OBDScreen: React.FC = () => {
             
             <GaugeArc
               value={obd.acceleratorPosition}
-              min={0}
-              max={100}
+              unavailable={!isChannelSupported('acceleratorPosition')}
+              stale={isStale('acceleratorPosition')}
+              {...channelRange('acceleratorPosition')}
               label="PEDAL"
               unit="%"
               size={110}
@@ -192,8 +257,9 @@ export const OBDScreen: React.FC = () => {
             
             <GaugeArc
               value={Math.max(0, obd.actualTorque)}
-              min={0}
-              max={100}
+              unavailable={!isChannelSupported('actualTorque')}
+              stale={isStale('actualTorque')}
+              {...channelRange('actualTorque')}
               label="TORQUE"
               unit="%"
               size={110}
@@ -216,6 +282,8 @@ export const OBDScreen: React.FC = () => {
             <DataBox
               label="EGR COMMANDED"
               value={obd.egrCommanded}
+              unavailable={!isChannelSupported('egrCommanded')}
+              stale={isStale('egrCommanded')}
               unit="%"
               color={colors.primary}
               size="medium"
@@ -224,6 +292,8 @@ export const OBDScreen: React.FC = () => {
             <DataBox
               label="EGR ERROR"
               value={obd.egrError > 0 ? `+${obd.egrError}` : obd.egrError}
+              unavailable={!isChannelSupported('egrError')}
+              stale={isStale('egrError')}
               unit="%"
               color={Math.abs(obd.egrError) > 10 ? colors.warning : colors.primary}
               size="medium"
@@ -231,6 +301,254 @@ export const OBDScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Section: Standard diesel PIDs */}
+        {showDiesel && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>DIESEL</Text>
+            <View style={styles.gaugeRow}>
+              <GaugeArc
+                value={obd.fuelRailPressure / 1000}
+                unavailable={!isChannelSupported('fuelRailPressure')}
+                stale={isStale('fuelRailPressure')}
+                min={0}
+                max={channelRange('fuelRailPressure').max / 1000}
+                label="RAIL"
+                unit="MPa"
+                size={110}
+              />
+              
+              <GaugeArc
+                value={obd.boostActual}
+                unavailable={!isChannelSupported('boostActual')}
+                stale={isStale('boostActual')}
+                {...channelRange('boostCommanded')}
+                label="BOOST"
+                unit="kPa"
+                size={110}
+                color={colors.secondary}
+              />
+              
+              <GaugeArc
+                value={obd.turboRpm / 1000}
+                unavailable={!isChannelSupported('turboRpm')}
+                stale={isStale('turboRpm')}
+                min={0}
+                max={channelRange('turboRpm').max / 1000}
+                label="TURBO"
+                unit="krpm"
+                size={110}
+                color={colors.secondary}
+              />
+            </View>
+            
+            <View style={[styles.dataRow, styles.stackedRow]}>
+              <DataBox
+                label="TARGET BOOST"
+                value={fmt(obd.boostCommanded, 0)}
+                unavailable={!isChannelSupported('boostCommanded')}
+                stale={isStale('boostCommanded')}
+                unit="kPa"
+                color={colors.secondary}
+                size="medium"
+              />
+              
+              <DataBox
+                label="EGT"
+                value={fmt(obd.egtBank1, 0)}
+                unavailable={!isChannelSupported('egtBank1')}
+                stale={isStale('egtBank1')}
+                unit="°C"
+                color={obd.egtBank1 > EGT_WARNING ? colors.warning : colors.primary}
+                size="medium"
+              />
+              
+              {isChannelSupported('egtBank2') && (
+                <DataBox
+                  label="EGT BANK 2"
+                  value={fmt(obd.egtBank2, 0)}
+                  stale={isStale('egtBank2')}
+                  unit="°C"
+                  color={obd.egtBank2 > EGT_WARNING ? colors.warning : colors.primary}
+                  size="medium"
+                />
+              )}
+              
+              <DataBox
+                label="FRICTION"
+                value={obd.frictionTorque}
+                unavailable={!isChannelSupported('frictionTorque')}
+                stale={isStale('frictionTorque')}
+                unit="%"
+                color={colors.primary}
+                size="medium"
+              />
+            </View>
+            
+            <View style={[styles.dataRow, styles.stackedRow]}>
+              <DataBox
+                label="DPF ΔP"
+                value={fmt(obd.dpfPressureBank1, 1)}
+                unavailable={!isChannelSupported('dpfPressureBank1')}
+                stale={isStale('dpfPressureBank1')}
+                unit="kPa"
+                color={obd.dpfPressureBank1 > DPF_PRESSURE_WARNING ? colors.warning : colors.primary}
+                size="medium"
+              />
+              
+              {isChannelSupported('dpfPressureBank2') && (
+                <DataBox
+                  label="DPF ΔP 2"
+                  value={fmt(obd.dpfPressureBank2, 1)}
+                  stale={isStale('dpfPressureBank2')}
+                  unit="kPa"
+                  color={obd.dpfPressureBank2 > DPF_PRESSURE_WARNING ? colors.warning : colors.primary}
+                  size="medium"
+                />
+              )}
+              
+              <DataBox
+                label="DPF TEMP"
+                value={fmt(obd.dpfInletTemp, 0)}
+                unavailable={!isChannelSupported('dpfInletTemp')}
+                stale={isStale('dpfInletTemp')}
+                unit="°C"
+                color={colors.primary}
+                size="medium"
+              />
+              
+              <DataBox
+                label="NOx"
+                value={obd.noxConcentration}
+                unavailable={!isChannelSupported('noxConcentration')}
+                stale={isStale('noxConcentration')}
+                unit="ppm"
+                color={colors.primary}
+                size="medium"
+              />
+            </View>
+          </View>
+        )}
+
+        {/* Section: Toyota D-4D enhanced data */}
+        {showD4D && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>D-4D</Text>
+            <View style={styles.gaugeRow}>
+              <GaugeArc
+                value={d4d(D4D_PIDS.railPressure) ?? 0}
+                unavailable={d4d(D4D_PIDS.railPressure) === undefined}
+                stale={isStale(D4D_PIDS.railPressure)}
+                min={0}
+                max={160}
+                label="RAIL"
+                unit="MPa"
+                size={110}
+                warningThreshold={135}
+              />
+              
+              <GaugeArc
+                value={boostActual ?? 0}
+                unavailable={boostActual === undefined}
+                stale={isStale(D4D_PIDS.boostActual)}
+                min={0}
+                max={250}
+                label="BOOST"
+                unit="kPa"
+                size={110}
+                color={colors.secondary}
+                warningThreshold={200}
+              />
+              
+              <GaugeArc
+                value={d4d(D4D_PIDS.vnPosition) ?? 0}
+                unavailable={d4d(D4D_PIDS.vnPosition) === undefined}
+                stale={isStale(D4D_PIDS.vnPosition)}
+                min={0}
+                max={100}
+                label="VN TURBO"
+                unit="%"
+                size={110}
+                color={colors.secondary}
+              />
+            </View>
+            
+            <View style={[styles.dataRow, styles.stackedRow]}>
+              <DataBox
+                label="TARGET BOOST"
+                value={fmt(boostTarget, 0)}
+                unavailable={boostTarget === undefined}
+                stale={isStale(D4D_PIDS.boostTarget)}
+                unit="kPa"
+                color={colors.secondary}
+                size="medium"
+              />
+              
+              <DataBox
+                label="BOOST ERROR"
+                value={boostError !== undefined && boostError > 0 ? `+${boostError}` : fmt(boostError, 0)}
+                unavailable={boostError === undefined}
+                stale={isStale(D4D_PIDS.boostTarget) || isStale(D4D_PIDS.boostActual)}
+                unit="kPa"
+                color={boostError !== undefined && Math.abs(boostError) > 20 ? colors.warning : colors.primary}
+                size="medium"
+              />
+              
+              <DataBox
+                label="EGR VALVE"
+                value={fmt(d4d(D4D_PIDS.egrPosition), 0)}
+                unavailable={d4d(D4D_PIDS.egrPosition) === undefined}
+                stale={isStale(D4D_PIDS.egrPosition)}
+                unit="%"
+                color={colors.primary}
+                size="medium"
+              />
+            </View>
+            
+            <View style={[styles.dataRow, styles.stackedRow]}>
+              {D4D_PIDS.injectors.map((id, index) => {
+                const correction = d4d(id);
+                return (
+                  <DataBox
+                    key={id}
+                    label={`INJ ${index + 1}`}
+                    value={correction !== undefined && correction > 0 ? `+${correction.toFixed(1)}` : fmt(correction, 1)}
+                    unavailable={correction === undefined}
+                    stale={isStale(id)}
+                    unit="mm³"
+                    color={correction !== undefined && Math.abs(correction) > INJECTOR_CORRECTION_LIMIT
+                      ? colors.warning
+                      : colors.primary}
+                    size="small"
+                  />
+                );
+              })}
+            </View>
+          </View>
+        )}
+
+        {/* Section: Custom PIDs */}
+        {settings.customPids.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>CUSTOM</Text>
+            <View style={styles.gaugeRow}>
+              {settings.customPids.map((pid) => (
+                <GaugeArc
+                  key={pid.id}
+                  value={obd.customValues[pid.id] ?? pid.min}
+                  unavailable={obd.customValues[pid.id] === undefined}
+                  stale={isStale(pid.id)}
+                  min={pid.min}
+                  max={pid.max}
+                  label={pid.name.toUpperCase()}
+                  unit={pid.unit}
+                  size={130}
+                  color={colors.secondary}
+                />
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Section: System */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>SYSTEM</Text>
@@ -238,6 +556,8 @@ export const OBDScreen: React.FC = () => {
             <DataBox
               label="BATTERY"
               value={fmt(obd.batteryVoltage, 1)}
+              unavailable={!isChannelSupported('batteryVoltage')}
+              stale={isStale('batteryVoltage')}
               unit="V"
               color={obd.batteryVoltage < 12 ? colors.danger : obd.batteryVoltage < 12.4 ? colors.warning : colors.primary}
               size="medium"
@@ -246,6 +566,8 @@ export const OBDScreen: React.FC = () => {
             <DataBox
               label="BAROMETRIC"
               value={obd.barometricPressure}
+              unavailable={!isChannelSupported('barometricPressure')}
+              stale={isStale('barometricPressure')}
               unit="kPa"
               color={colors.secondary}
               size="medium"
@@ -254,6 +576,8 @@ export const OBDScreen: React.FC = () => {
             <DataBox
               label="RUN TIME"
               value={formatRunTime(obd.runTime)}
+              unavailable={!isChannelSupported('runTime')}
+              stale={isStale('runTime')}
               color={colors.textSecondary}
               size="medium"
             />
@@ -312,6 +636,9 @@ const styles = StyleSheet.create({
     flexWrap: 'wrap',
     gap: 8,
   },
+  stackedRow: {
+    marginTop: 8,
+  },
   torqueInfo: {
     alignItems: 'center',
     marginTop: 8,
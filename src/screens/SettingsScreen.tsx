@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   View, 
   Text, 
@@ -9,15 +9,92 @@ import {
   Alert,
 } from 'react-native';
 import { StatusBar } from 'expo-status-bar';
-import { useCalibratedSensors, useVehicleSettings } from '../hooks';
+import { useCalibratedSensors, useVehicleSettings, useOBD } from '../hooks';
+import { describeECU } from '../services/ResponseParser';
+import { ELM_PROTOCOLS } from '../services/OBDService';
+import { validateCustomPID, createCustomPIDId, parseTorqueCSV } from '../services/CustomPIDs';
+import { VEHICLE_PACKS } from '../services/VehiclePacks';
+import type { VehiclePackId } from '../services/VehiclePacks';
+import type { FuelRateSource, FuelType } from '../services/FuelEstimator';
 import { colors } from '../theme/colors';
 
+// "coolantTemp" -> "Coolant Temp"
+const formatChannel = (channel: string): string =>
+  channel.replace(/([A-Z])/g, ' $1').replace(/^./, c => c.toUpperCase());
+
+// Custom PID form, kept as text until it is added
+interface CustomPIDForm {
+  name: string;
+  request: string;
+  header: string;
+  expression: string;
+  unit: string;
+  min: string;
+  max: string;
+}
+
+const EMPTY_CUSTOM_PID_FORM: CustomPIDForm = {
+  name: '',
+  request: '',
+  header: '',
+  expression: '',
+  unit: '',
+  min: '0',
+  max: '100',
+};
+
+const CUSTOM_PID_FIELDS: Array<{ key: keyof CustomPIDForm; label: string; placeholder: string; numeric?: boolean }> = [
+  { key: 'name', label: 'Name', placeholder: 'e.g. Rail Pressure' },
+  { key: 'request', label: 'Mode + PID (hex)', placeholder: '2101' },
+  { key: 'header', label: 'Header (optional)', placeholder: '7E0' },
+  { key: 'expression', label: 'Expression (bytes A, B, C...)', placeholder: '(A*256+B)/10' },
+  { key: 'unit', label: 'Unit', placeholder: 'MPa' },
+  { key: 'min', label: 'Gauge Min', placeholder: '0', numeric: true },
+  { key: 'max', label: 'Gauge Max', placeholder: '100', numeric: true },
+];
+
+const FUEL_RATE_SOURCE_LABELS: Record<FuelRateSource, string> = {
+  pid: 'ECU (PID 015E)',
+  maf: 'Estimated from MAF',
+  load: 'Estimated from load x RPM',
+  none: 'Not available',
+};
+
+const FUEL_TYPES: FuelType[] = ['diesel', 'petrol'];
+
+// Fill-ups listed under the calibration
+const SHOWN_FILL_UPS = 5;
+
 export const SettingsScreen: React.FC = () => {
   const sensors = useCalibratedSensors();
-  const { settings, updateSettings } = useVehicleSettings();
+  const { settings, updateSettings, recordFillUp } = useVehicleSettings();
+  const { data: obd, channelEcus } = useOBD();
+  
+  // Only channels answered by more than one ECU need a choice
+  const sharedChannels = Object.entries(channelEcus)
+    .filter(([, ecus]) => ecus && ecus.length > 1) as [string, string[]][];
   
   const [tankCapacity, setTankCapacity] = useState(settings.fuelTankCapacity.toString());
   const [vehicleName, setVehicleName] = useState(settings.vehicleName);
+  const [customPidForm, setCustomPidForm] = useState<CustomPIDForm>(EMPTY_CUSTOM_PID_FORM);
+  const [customPidErrors, setCustomPidErrors] = useState<string[]>([]);
+  const [torqueCSV, setTorqueCSV] = useState('');
+  const [airFuelRatio, setAirFuelRatio] = useState(settings.fuelModel.airFuelRatio.toString());
+  const [cylinders, setCylinders] = useState(settings.fuelModel.cylinders.toString());
+  const [fullLoadInjection, setFullLoadInjection] = useState(settings.fuelModel.fullLoadInjection.toString());
+  const [fillUpLiters, setFillUpLiters] = useState('');
+
+  // Refresh the form when settings load or the connected vehicle (VIN) changes
+  useEffect(() => {
+    setTankCapacity(settings.fuelTankCapacity.toString());
+    setVehicleName(settings.vehicleName);
+  }, [settings.vin, settings.fuelTankCapacity, settings.vehicleName]);
+
+  useEffect(() => {
+    setAirFuelRatio(settings.fuelModel.airFuelRatio.toString());
+    setCylinders(settings.fuelModel.cylinders.toString());
+    setFullLoadInjection(settings.fuelModel.fullLoadInjection.toString());
+  }, [settings.vin, settings.fuelModel]);
 
   // Handle TARE
   const handleTare = async () => {
@@ -70,6 +147,74 @@ export const SettingsScreen: React.FC = () => {
     Alert.alert('Saved', 'Vehicle settings have been saved.');
   };
 
+  // Save the fuel estimate parameters; the calibration is left alone
+  const saveFuelModel = () => {
+    const afr = parseFloat(airFuelRatio);
+    const cylinderCount = parseInt(cylinders, 10);
+    const injection = parseFloat(fullLoadInjection);
+    if (!(afr > 0) || !(cylinderCount > 0) || !(injection > 0)) {
+      Alert.alert('Invalid', 'Air-fuel ratio, cylinders and injection quantity must be positive numbers.');
+      return;
+    }
+    updateSettings({
+      fuelModel: { ...settings.fuelModel, airFuelRatio: afr, cylinders: cylinderCount, fullLoadInjection: injection },
+    });
+    Alert.alert('Saved', 'Fuel estimate settings have been saved.');
+  };
+
+  const saveFillUp = async () => {
+    const liters = parseFloat(fillUpLiters);
+    if (!(liters > 0)) {
+      Alert.alert('Invalid', 'Please enter the liters pumped.');
+      return;
+    }
+    const updated = await recordFillUp(liters);
+    setFillUpLiters('');
+    const fillUp = updated.fillUps[updated.fillUps.length - 1];
+    Alert.alert(
+      'Fill-Up Recorded',
+      fillUp.estimated > 0
+        ? `Pumped ${liters} L, estimated ${fillUp.estimated} L. Calibration is now x${updated.fuelModel.calibration}.`
+        : 'Counting starts now - record the next fill-up to full to calibrate.'
+    );
+  };
+
+  // Add the custom PID in the form if it is complete
+  const addCustomPid = () => {
+    const pid = {
+      name: customPidForm.name.trim(),
+      request: customPidForm.request.replace(/\s/g, '').toUpperCase(),
+      header: customPidForm.header.replace(/\s/g, '').toUpperCase(),
+      expression: customPidForm.expression.trim(),
+      unit: customPidForm.unit.trim(),
+      min: parseFloat(customPidForm.min),
+      max: parseFloat(customPidForm.max),
+    };
+    const problems = validateCustomPID(pid);
+    setCustomPidErrors(problems);
+    if (problems.length > 0) return;
+
+    updateSettings({ customPids: [...settings.customPids, { ...pid, id: createCustomPIDId() }] });
+    setCustomPidForm(EMPTY_CUSTOM_PID_FORM);
+  };
+
+  const removeCustomPid = (id: string) => {
+    updateSettings({ customPids: settings.customPids.filter(pid => pid.id !== id) });
+  };
+
+  // Add every valid line of a pasted Torque Pro PID list
+  const importTorqueCSV = () => {
+    const { pids, errors } = parseTorqueCSV(torqueCSV);
+    if (pids.length > 0) {
+      updateSettings({ customPids: [...settings.customPids, ...pids] });
+      setTorqueCSV('');
+    }
+    Alert.alert(
+      'Torque Import',
+      [`Imported ${pids.length} PID${pids.length === 1 ? '' : 's'}.`, ...errors.slice(0, 5)].join('\n')
+    );
+  };
+
   // Format calibration age
   const formatAge = (seconds: number): string => {
     if (seconds < 60) return `${seconds}s ago`;
@@ -206,6 +351,9 @@ export const SettingsScreen: React.FC = () => {
                 placeholder="e.g. Toyota RAV4 2005"
                 placeholderTextColor={colors.textDim}
               />
+              <Text style={styles.inputHint}>
+                {settings.vin ? `VIN: ${settings.vin}` : 'VIN: read automatically on first OBD connection'}
+              </Text>
             </View>
             
             <View style={styles.inputGroup}>
@@ -229,6 +377,127 @@ export const SettingsScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Fuel Estimate Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>FUEL ESTIMATE</Text>
+          
+          <View style={styles.card}>
+            <Text style={styles.cardDescription}>
+              Used when the ECU does not report its fuel rate (PID 015E). Petrol engines are 
+              estimated from MAF, diesels from engine load and RPM.
+            </Text>
+            
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>Fuel rate:</Text>
+              <Text style={styles.statusValue}>
+                {obd.isConnected ? FUEL_RATE_SOURCE_LABELS[obd.fuelRateSource] : 'Not connected'}
+              </Text>
+            </View>
+            
+            <View style={styles.sourceButtons}>
+              {FUEL_TYPES.map((fuelType) => (
+                <TouchableOpacity
+                  key={fuelType}
+                  style={[styles.unitButton, settings.fuelModel.fuelType === fuelType && styles.unitButtonActive]}
+                  onPress={() => updateSettings({ fuelModel: { ...settings.fuelModel, fuelType } })}
+                >
+                  <Text style={[styles.unitButtonText, settings.fuelModel.fuelType === fuelType && styles.unitButtonTextActive]}>
+                    {fuelType.toUpperCase()}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            
+            {settings.fuelModel.fuelType === 'petrol' ? (
+              <View style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>Air-Fuel Ratio</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={airFuelRatio}
+                  onChangeText={setAirFuelRatio}
+                  keyboardType="numeric"
+                  placeholder="14.7"
+                  placeholderTextColor={colors.textDim}
+                />
+                <Text style={styles.inputHint}>14.7 for petrol, about 9.8 for E85</Text>
+              </View>
+            ) : (
+              <>
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Cylinders</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={cylinders}
+                    onChangeText={setCylinders}
+                    keyboardType="numeric"
+                    placeholder="4"
+                    placeholderTextColor={colors.textDim}
+                  />
+                </View>
+                <View style={styles.inputGroup}>
+                  <Text style={styles.inputLabel}>Full-Load Injection (mm³/stroke)</Text>
+                  <TextInput
+                    style={styles.textInput}
+                    value={fullLoadInjection}
+                    onChangeText={setFullLoadInjection}
+                    keyboardType="numeric"
+                    placeholder="50"
+                    placeholderTextColor={colors.textDim}
+                  />
+                  <Text style={styles.inputHint}>Fuel per injection at 100% load - 2.0 D-4D: ~50</Text>
+                </View>
+              </>
+            )}
+            
+            <TouchableOpacity style={styles.saveButton} onPress={saveFuelModel}>
+              <Text style={styles.saveButtonText}>SAVE MODEL</Text>
+            </TouchableOpacity>
+            
+            <View style={[styles.inputGroup, styles.importGroup]}>
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>Calibration:</Text>
+                <Text style={styles.statusValue}>
+                  {settings.fuelModel.calibration === 1 ? 'Not yet' : `x${settings.fuelModel.calibration}`}
+                </Text>
+              </View>
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>Since fill-up:</Text>
+                <Text style={styles.statusValue}>
+                  {(settings.fuelSinceFillUp * settings.fuelModel.calibration).toFixed(1)} L estimated
+                </Text>
+              </View>
+              
+              <Text style={styles.inputLabel}>Liters Pumped (fill to full)</Text>
+              <TextInput
+                style={styles.textInput}
+                value={fillUpLiters}
+                onChangeText={setFillUpLiters}
+                keyboardType="numeric"
+                placeholder="45.2"
+                placeholderTextColor={colors.textDim}
+              />
+              <Text style={styles.inputHint}>
+                Only drives with the adapter connected are counted
+              </Text>
+            </View>
+            
+            <TouchableOpacity style={styles.saveButton} onPress={saveFillUp}>
+              <Text style={styles.saveButtonText}>RECORD FILL-UP</Text>
+            </TouchableOpacity>
+            
+            {settings.fillUps.slice(-SHOWN_FILL_UPS).reverse().map((fillUp) => (
+              <View key={fillUp.at} style={styles.customPidRow}>
+                <View style={styles.customPidInfo}>
+                  <Text style={styles.customPidName}>{new Date(fillUp.at).toLocaleDateString()}</Text>
+                  <Text style={styles.customPidDetail}>
+                    pumped {fillUp.liters} L  estimated {fillUp.estimated} L
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        </View>
+
         {/* Display Units Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>DISPLAY UNITS</Text>
@@ -302,6 +571,200 @@ export const SettingsScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* OBD Protocol Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>OBD PROTOCOL</Text>
+          
+          <View style={styles.card}>
+            <Text style={styles.cardDescription}>
+              The protocol found on the first connection is remembered for this vehicle. 
+              Force one here if automatic detection is unreliable.
+            </Text>
+            
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>Detected:</Text>
+              <Text style={styles.statusValue}>
+                {settings.obdProtocol ? ELM_PROTOCOLS[settings.obdProtocol] : 'Not yet'}
+              </Text>
+            </View>
+            
+            <View style={styles.sourceButtons}>
+              <TouchableOpacity
+                style={[styles.unitButton, !settings.protocolOverride && styles.unitButtonActive]}
+                onPress={() => updateSettings({ protocolOverride: '' })}
+              >
+                <Text style={[styles.unitButtonText, !settings.protocolOverride && styles.unitButtonTextActive]}>
+                  AUTO
+                </Text>
+              </TouchableOpacity>
+              {Object.keys(ELM_PROTOCOLS).map((protocol) => (
+                <TouchableOpacity
+                  key={protocol}
+                  style={[styles.unitButton, settings.protocolOverride === protocol && styles.unitButtonActive]}
+                  onPress={() => updateSettings({ protocolOverride: protocol })}
+                >
+                  <Text style={[styles.unitButtonText, settings.protocolOverride === protocol && styles.unitButtonTextActive]}>
+                    {protocol}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            
+            <Text style={styles.inputHint}>
+              {settings.protocolOverride
+                ? `Forced: ${ELM_PROTOCOLS[settings.protocolOverride]} - applies on next connection`
+                : 'Remembered protocol first, full search if it fails'}
+            </Text>
+          </View>
+        </View>
+
+        {/* Enhanced PID Pack Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>ENHANCED PIDS</Text>
+          
+          <View style={styles.card}>
+            <Text style={styles.cardDescription}>
+              Manufacturer data beyond generic OBD, read straight from the engine ECU. 
+              Pick the pack matching this vehicle's engine.
+            </Text>
+            
+            <View style={styles.sourceButtons}>
+              <TouchableOpacity
+                style={[styles.unitButton, !settings.vehiclePack && styles.unitButtonActive]}
+                onPress={() => updateSettings({ vehiclePack: '' })}
+              >
+                <Text style={[styles.unitButtonText, !settings.vehiclePack && styles.unitButtonTextActive]}>
+                  NONE
+                </Text>
+              </TouchableOpacity>
+              {Object.values(VEHICLE_PACKS).map((pack) => (
+                <TouchableOpacity
+                  key={pack.id}
+                  style={[styles.unitButton, settings.vehiclePack === pack.id && styles.unitButtonActive]}
+                  onPress={() => updateSettings({ vehiclePack: pack.id })}
+                >
+                  <Text style={[styles.unitButtonText, settings.vehiclePack === pack.id && styles.unitButtonTextActive]}>
+                    {pack.name.toUpperCase()}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            
+            {settings.vehiclePack in VEHICLE_PACKS && (
+              <Text style={styles.inputHint}>
+                {VEHICLE_PACKS[settings.vehiclePack as VehiclePackId].description}
+              </Text>
+            )}
+          </View>
+        </View>
+
+        {/* Custom PIDs Section */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>CUSTOM PIDS</Text>
+          
+          <View style={styles.card}>
+            <Text style={styles.cardDescription}>
+              Manufacturer-specific values (Mode 21/22). A is the first data byte after 
+              the echoed mode and PID. Custom PIDs show up on the OBD screen.
+            </Text>
+            
+            {settings.customPids.map((pid) => (
+              <View key={pid.id} style={styles.customPidRow}>
+                <View style={styles.customPidInfo}>
+                  <Text style={styles.customPidName}>{pid.name}</Text>
+                  <Text style={styles.customPidDetail}>
+                    {pid.header ? `${pid.header} ` : ''}{pid.request}  {pid.expression}  {pid.min}-{pid.max} {pid.unit}
+                  </Text>
+                </View>
+                <TouchableOpacity onPress={() => removeCustomPid(pid.id)}>
+                  <Text style={styles.removeText}>REMOVE</Text>
+                </TouchableOpacity>
+              </View>
+            ))}
+            
+            {CUSTOM_PID_FIELDS.map((field) => (
+              <View key={field.key} style={styles.inputGroup}>
+                <Text style={styles.inputLabel}>{field.label}</Text>
+                <TextInput
+                  style={styles.textInput}
+                  value={customPidForm[field.key]}
+                  onChangeText={(text) => setCustomPidForm(form => ({ ...form, [field.key]: text }))}
+                  keyboardType={field.numeric ? 'numeric' : 'default'}
+                  autoCapitalize={field.key === 'name' || field.key === 'unit' ? 'sentences' : 'characters'}
+                  placeholder={field.placeholder}
+                  placeholderTextColor={colors.textDim}
+                />
+              </View>
+            ))}
+            
+            {customPidErrors.map((problem) => (
+              <Text key={problem} style={styles.errorText}>{problem}</Text>
+            ))}
+            
+            <TouchableOpacity style={styles.saveButton} onPress={addCustomPid}>
+              <Text style={styles.saveButtonText}>ADD PID</Text>
+            </TouchableOpacity>
+            
+            <View style={[styles.inputGroup, styles.importGroup]}>
+              <Text style={styles.inputLabel}>Import Torque Pro CSV</Text>
+              <TextInput
+                style={[styles.textInput, styles.csvInput]}
+                value={torqueCSV}
+                onChangeText={setTorqueCSV}
+                multiline
+                autoCapitalize="none"
+                placeholder="Name,ShortName,ModeAndPID,Equation,Min Value,Max Value,Units,Header"
+                placeholderTextColor={colors.textDim}
+              />
+              <Text style={styles.inputHint}>
+                Paste the contents of a Torque extended PID file
+              </Text>
+            </View>
+            
+            <TouchableOpacity style={styles.saveButton} onPress={importTorqueCSV}>
+              <Text style={styles.saveButtonText}>IMPORT</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* ECU Data Sources Section */}
+        {sharedChannels.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>ECU DATA SOURCES</Text>
+            
+            <View style={styles.card}>
+              <Text style={styles.cardDescription}>
+                These values are reported by more than one control unit. 
+                Pick the one each reading should come from.
+              </Text>
+              
+              {sharedChannels.map(([channel, ecus]) => {
+                const selected = settings.channelSources[channel] ?? ecus[0];
+                return (
+                  <View key={channel} style={styles.sourceRow}>
+                    <Text style={styles.unitLabel}>{formatChannel(channel)}</Text>
+                    <View style={styles.sourceButtons}>
+                      {ecus.map((ecu) => (
+                        <TouchableOpacity
+                          key={ecu}
+                          style={[styles.unitButton, selected === ecu && styles.unitButtonActive]}
+                          onPress={() => updateSettings({
+                            channelSources: { ...settings.channelSources, [channel]: ecu },
+                          })}
+                        >
+                          <Text style={[styles.unitButtonText, selected === ecu && styles.unitButtonTextActive]}>
+                            {describeECU(ecu).toUpperCase()}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </View>
+                  </View>
+                );
+              })}
+            </View>
+          </View>
+        )}
+
         {/* Instructions */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>CALIBRATION INSTRUCTIONS</Text>
@@ -471,6 +934,50 @@ const styles = StyleSheet.create({
     fontFamily: 'monospace',
     marginTop: 4,
   },
+  importGroup: {
+    marginTop: 16,
+  },
+  csvInput: {
+    minHeight: 96,
+    fontSize: 11,
+    textAlignVertical: 'top',
+  },
+  errorText: {
+    color: colors.danger,
+    fontSize: 10,
+    fontFamily: 'monospace',
+    marginBottom: 8,
+  },
+  customPidRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderBottomWidth: 1,
+    borderBottomColor: colors.gaugeBorder,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  customPidInfo: {
+    flex: 1,
+  },
+  customPidName: {
+    color: colors.textPrimary,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+  },
+  customPidDetail: {
+    color: colors.textDim,
+    fontSize: 10,
+    fontFamily: 'monospace',
+    marginTop: 2,
+  },
+  removeText: {
+    color: colors.danger,
+    fontSize: 10,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    paddingLeft: 12,
+  },
   saveButton: {
     backgroundColor: colors.secondary,
     paddingVertical: 14,
@@ -518,6 +1025,15 @@ const styles = StyleSheet.create({
     color: colors.primary,
     fontWeight: 'bold',
   },
+  sourceRow: {
+    marginBottom: 12,
+  },
+  sourceButtons: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 6,
+  },
   instructionBox: {
     backgroundColor: colors.backgroundSecondary,
     borderWidth: 1,
@@ -0,0 +1,299 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  TextInput,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { StatusBar } from 'expo-status-bar';
+import { useIsFocused } from '@react-navigation/native';
+import { useTerminal } from '../hooks';
+import type { TerminalLine } from '../hooks/useTerminal';
+import { hexToAscii } from '../services/ResponseParser';
+import { colors } from '../theme/colors';
+
+const QUICK_COMMANDS = ['ATI', 'ATDP', 'ATDPN', 'ATRV', '0100', '0902', '03', 'ATMA'];
+
+const DIRECTION_MARKS: Record<TerminalLine['direction'], string> = {
+  out: '>',
+  in: '<',
+  info: '#',
+};
+
+// 14:03:07.412
+const formatTime = (at: number): string => {
+  const date = new Date(at);
+  const pad = (value: number, length: number = 2) => value.toString().padStart(length, '0');
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`;
+};
+
+// Hex-only reply lines decoded to text, e.g. a VIN; everything else as received
+const asAscii = (text: string): string => {
+  const compact = text.replace(/\s/g, '');
+  return /^([0-9A-F]{2})+$/i.test(compact) ? hexToAscii(compact) : text;
+};
+
+export const TerminalScreen: React.FC = () => {
+  const terminal = useTerminal();
+  const isFocused = useIsFocused();
+  const [input, setInput] = useState('');
+  const [showAscii, setShowAscii] = useState(false);
+  const scrollRef = useRef<ScrollView>(null);
+
+  // Polling only stays paused while the terminal is on screen
+  useEffect(() => {
+    if (!isFocused && terminal.pollingPaused) {
+      terminal.setPaused(false);
+    }
+  }, [isFocused, terminal.pollingPaused, terminal.setPaused]);
+
+  const handleSend = () => {
+    terminal.send(input);
+    setInput('');
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <StatusBar style="light" />
+
+      <View style={styles.header}>
+        <Text style={styles.title}>ELM327 TERMINAL</Text>
+        <View style={styles.toolbar}>
+          <TouchableOpacity
+            style={[styles.toolButton, terminal.pollingPaused && styles.toolButtonActive]}
+            onPress={() => terminal.setPaused(!terminal.pollingPaused)}
+            disabled={!terminal.isConnected}
+          >
+            <Text style={[styles.toolButtonText, terminal.pollingPaused && styles.toolButtonTextActive]}>
+              {terminal.pollingPaused ? 'POLLING PAUSED' : 'PAUSE POLLING'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.toolButton, showAscii && styles.toolButtonActive]}
+            onPress={() => setShowAscii(!showAscii)}
+          >
+            <Text style={[styles.toolButtonText, showAscii && styles.toolButtonTextActive]}>
+              {showAscii ? 'ASCII' : 'HEX'}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.toolButton} onPress={terminal.clear}>
+            <Text style={styles.toolButtonText}>CLEAR</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      <ScrollView
+        ref={scrollRef}
+        style={styles.log}
+        contentContainerStyle={styles.logContent}
+        onContentSizeChange={() => scrollRef.current?.scrollToEnd({ animated: false })}
+      >
+        {terminal.lines.length === 0 && (
+          <Text style={styles.placeholder}>
+            {terminal.isConnected
+              ? 'Commands share the queue with live data. Pause polling for a quiet bus.'
+              : 'Connect an adapter on the OBD tab first.'}
+          </Text>
+        )}
+        {terminal.lines.map((line) => (
+          <Text key={line.id} style={[styles.line, styles[line.direction]]}>
+            <Text style={styles.time}>{formatTime(line.at)} </Text>
+            {DIRECTION_MARKS[line.direction]} {showAscii && line.direction === 'in' ? asAscii(line.text) : line.text}
+          </Text>
+        ))}
+      </ScrollView>
+
+      <ScrollView horizontal style={styles.chipRow} showsHorizontalScrollIndicator={false}>
+        {QUICK_COMMANDS.map((command) => (
+          <TouchableOpacity
+            key={command}
+            style={styles.chip}
+            onPress={() => terminal.send(command)}
+            disabled={!terminal.isConnected || terminal.pending !== null}
+          >
+            <Text style={styles.chipText}>{command}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      {terminal.history.length > 0 && (
+        <ScrollView horizontal style={styles.chipRow} showsHorizontalScrollIndicator={false}>
+          {terminal.history.map((command) => (
+            <TouchableOpacity key={command} style={[styles.chip, styles.historyChip]} onPress={() => setInput(command)}>
+              <Text style={styles.historyChipText}>{command}</Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <View style={styles.inputRow}>
+        <TextInput
+          style={styles.input}
+          value={input}
+          onChangeText={setInput}
+          onSubmitEditing={handleSend}
+          placeholder="ATDP, 0100, 2101..."
+          placeholderTextColor={colors.textDim}
+          autoCapitalize="characters"
+          autoCorrect={false}
+          returnKeyType="send"
+          editable={terminal.isConnected}
+        />
+        {terminal.pending !== null ? (
+          <TouchableOpacity style={[styles.sendButton, styles.stopButton]} onPress={terminal.interrupt}>
+            <Text style={styles.sendButtonText}>STOP</Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.sendButton, !terminal.isConnected && styles.sendButtonDisabled]}
+            onPress={handleSend}
+            disabled={!terminal.isConnected}
+          >
+            <Text style={styles.sendButtonText}>SEND</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </KeyboardAvoidingView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+    padding: 16,
+  },
+  header: {
+    marginBottom: 12,
+  },
+  title: {
+    color: colors.primary,
+    fontSize: 18,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    letterSpacing: 2,
+    marginBottom: 12,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  toolButton: {
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.gaugeBorder,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+  },
+  toolButtonActive: {
+    borderColor: colors.warning,
+  },
+  toolButtonText: {
+    color: colors.textSecondary,
+    fontSize: 10,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+  },
+  toolButtonTextActive: {
+    color: colors.warning,
+    fontWeight: 'bold',
+  },
+  log: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.gaugeBorder,
+  },
+  logContent: {
+    padding: 8,
+  },
+  placeholder: {
+    color: colors.textDim,
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  line: {
+    fontSize: 11,
+    fontFamily: 'monospace',
+    lineHeight: 16,
+  },
+  time: {
+    color: colors.textDim,
+  },
+  out: {
+    color: colors.secondary,
+  },
+  in: {
+    color: colors.primary,
+  },
+  info: {
+    color: colors.warning,
+  },
+  chipRow: {
+    flexGrow: 0,
+    marginTop: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderColor: colors.primaryDim,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    marginRight: 6,
+  },
+  chipText: {
+    color: colors.primary,
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  historyChip: {
+    borderColor: colors.gaugeBorder,
+  },
+  historyChipText: {
+    color: colors.textSecondary,
+    fontSize: 11,
+    fontFamily: 'monospace',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    marginTop: 8,
+    gap: 8,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: colors.backgroundSecondary,
+    borderWidth: 1,
+    borderColor: colors.gaugeBorder,
+    color: colors.textPrimary,
+    fontSize: 14,
+    fontFamily: 'monospace',
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  sendButton: {
+    backgroundColor: colors.primary,
+    paddingHorizontal: 16,
+    justifyContent: 'center',
+  },
+  sendButtonDisabled: {
+    backgroundColor: colors.gaugeBorder,
+  },
+  stopButton: {
+    backgroundColor: colors.danger,
+  },
+  sendButtonText: {
+    color: colors.background,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    fontWeight: 'bold',
+    letterSpacing: 1,
+  },
+});
+
+export default TerminalScreen;
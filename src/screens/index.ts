@@ -1,6 +1,8 @@
 export { HUDScreen } from './HUDScreen';
 export { OBDScreen } from './OBDScreen';
 export { ConnectionScreen } from './ConnectionScreen';
+export { TerminalScreen } from './TerminalScreen';
+export { DiagnosticsScreen } from './DiagnosticsScreen';
 export { PerformanceScreen } from './PerformanceScreen';
 export { OffroadScreen } from './OffroadScreen';
 export { SettingsScreen } from './SettingsScreen';
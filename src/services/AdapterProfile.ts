@@ -0,0 +1,109 @@
+// Adapter identification - tells genuine ELM327, STN (OBDLink) and clone chips apart.
+// Cheap "v2.1" clones report a high version in ATI but are built on v1.x firmware,
+// so the AT commands added in later versions come back as '?'.
+
+export type AdapterChip = 'elm327' | 'stn' | 'clone';
+
+export interface AdapterProbe {
+  command: string;
+  minVersion: number;        // ELM327 version that introduced the command
+  supported: boolean;
+}
+
+export interface AdapterProfile {
+  chip: AdapterChip;
+  identity: string;          // ATI, e.g. "ELM327 v1.5"
+  version: number | null;    // Version claimed by ATI
+  description: string;       // AT@1, genuine chips say "OBDII to RS232 Interpreter"
+  stnIdentity: string | null;  // STI, e.g. "STN1110 v4.2.0"
+  stnDevice: string | null;    // STDI, e.g. "OBDLink MX+ r1.3"
+  voltage: number | null;    // ATRV, volts at the OBD port
+  probes: AdapterProbe[];
+  cloneReasons: string[];    // Why the adapter was flagged as a clone
+}
+
+export interface PollingStrategy {
+  pollDelay: number;         // ms between polled PIDs
+  commandTimeout: number;    // ms to wait for a polled PID
+  adaptiveTiming: string | null;  // AT command tuning the ECU reply timeout, if trusted
+}
+
+// Commands a genuine chip of the claimed version must know
+export const ADAPTER_PROBES: Array<Omit<AdapterProbe, 'supported'>> = [
+  { command: 'ATPPS', minVersion: 1.1 },   // Programmable parameter summary
+  { command: 'ATIGN', minVersion: 1.4 },   // Ignition input level
+  { command: 'ATAMC', minVersion: 2.0 },   // Activity monitor count
+];
+
+const GENUINE_DESCRIPTION = 'OBDII TO RS232 INTERPRETER';
+
+export const POLLING_STRATEGIES: Record<AdapterChip, PollingStrategy> = {
+  elm327: { pollDelay: 20, commandTimeout: 2000, adaptiveTiming: 'ATAT1' },
+  stn: { pollDelay: 0, commandTimeout: 1000, adaptiveTiming: 'ATAT2' },
+  // Clones choke on back-to-back requests and mishandle adaptive timing
+  clone: { pollDelay: 60, commandTimeout: 3000, adaptiveTiming: null },
+};
+
+export const CHIP_LABELS: Record<AdapterChip, string> = {
+  elm327: 'ELM327',
+  stn: 'STN (OBDLink)',
+  clone: 'ELM327 clone',
+};
+
+// "ELM327 v2.1" -> 2.1
+export const parseVersion = (identity: string): number | null => {
+  const match = identity.match(/v\s*(\d+\.\d+)/i);
+  return match ? parseFloat(match[1]) : null;
+};
+
+// STI reply of a real STN chip, e.g. "STN1110 v4.2.0"; clones answer "OK" to anything
+export const parseStnIdentity = (reply: string): string | null =>
+  /^STN\d{4}/i.test(reply.trim()) ? reply.trim() : null;
+
+// "12.6V" -> 12.6
+export const parseVoltage = (reply: string): number | null => {
+  const match = reply.match(/(\d+(?:\.\d+)?)\s*V/i);
+  return match ? parseFloat(match[1]) : null;
+};
+
+export const buildAdapterProfile = (replies: {
+  identity: string;
+  description: string;
+  stnIdentity: string | null;
+  stnDevice: string | null;
+  voltage: string;
+  probes: AdapterProbe[];
+}): AdapterProfile => {
+  const version = parseVersion(replies.identity);
+  const cloneReasons: string[] = [];
+
+  if (!replies.stnIdentity) {
+    if (version === null) {
+      cloneReasons.push(`Unrecognised identity "${replies.identity}"`);
+    }
+    // No genuine ELM327 was ever released as v1.6-v1.9 or above v2.3
+    if (version !== null && ((version > 1.5 && version < 2.0) || version > 2.3)) {
+      cloneReasons.push(`Version v${version} was never released`);
+    }
+    if (!replies.description.toUpperCase().includes(GENUINE_DESCRIPTION)) {
+      cloneReasons.push('Non-standard AT@1 description');
+    }
+    for (const probe of replies.probes) {
+      if (version !== null && version >= probe.minVersion && !probe.supported) {
+        cloneReasons.push(`Claims v${version} but rejects ${probe.command} (v${probe.minVersion})`);
+      }
+    }
+  }
+
+  return {
+    chip: replies.stnIdentity ? 'stn' : cloneReasons.length > 0 ? 'clone' : 'elm327',
+    identity: replies.identity,
+    version,
+    description: replies.description,
+    stnIdentity: replies.stnIdentity,
+    stnDevice: replies.stnDevice,
+    voltage: parseVoltage(replies.voltage),
+    probes: replies.probes,
+    cloneReasons,
+  };
+};
@@ -0,0 +1,220 @@
+import { BleManager, Device, Characteristic, Subscription } from 'react-native-ble-plx';
+import type { OBDTransport } from './OBDTransport';
+import { AsyncStorage } from './Storage';
+
+const GATT_PAIRS_KEY = '@CarHUD:bleGattPairs';
+
+// Expand a 16-bit UUID to the Bluetooth base UUID, as react-native-ble-plx reports them
+const uuid16 = (short: string): string => `0000${short}-0000-1000-8000-00805f9b34fb`;
+
+// Service and characteristics that carry the adapter's serial link
+export interface GATTPair {
+  service: string;
+  write: string;
+  notify: string;
+}
+
+export interface GATTProfile extends GATTPair {
+  name: string;
+  namePattern?: RegExp;      // Only try this profile on devices advertising a matching name
+}
+
+// Known ELM327 adapter layouts, most specific first
+export const GATT_PROFILES: GATTProfile[] = [
+  {
+    name: 'OBDLink CX',
+    namePattern: /OBDLink/i,
+    service: uuid16('fff0'),
+    write: uuid16('fff2'),
+    notify: uuid16('fff1'),
+  },
+  {
+    name: 'Vgate',
+    service: 'e7810a71-73ae-499d-8c15-faa9aef0c3f2',
+    write: 'bef8d6c9-9c21-4c9e-b632-bd58c1009f9f',
+    notify: 'bef8d6c9-9c21-4c9e-b632-bd58c1009f9f',
+  },
+  { name: 'FFF0', service: uuid16('fff0'), write: uuid16('fff2'), notify: uuid16('fff1') },
+  { name: 'FFE0', service: uuid16('ffe0'), write: uuid16('ffe1'), notify: uuid16('ffe1') },
+  { name: '18F0', service: uuid16('18f0'), write: uuid16('2af1'), notify: uuid16('2af0') },
+];
+
+// Standard services every BLE device exposes - never the serial link
+const GENERIC_SERVICES = [uuid16('1800'), uuid16('1801'), uuid16('180a'), uuid16('180f')];
+
+const isWritable = (char: Characteristic): boolean =>
+  char.isWritableWithResponse || char.isWritableWithoutResponse;
+
+// Working pairs per device ID, loaded once per app run
+let rememberedPairs: Record<string, GATTPair> | null = null;
+
+const loadRememberedPairs = async (): Promise<Record<string, GATTPair>> => {
+  if (!rememberedPairs) {
+    try {
+      const saved = await AsyncStorage.getItem(GATT_PAIRS_KEY);
+      rememberedPairs = saved ? JSON.parse(saved) : {};
+    } catch (e) {
+      console.warn('Failed to load BLE characteristic pairs:', e);
+      rememberedPairs = {};
+    }
+  }
+  return rememberedPairs!;
+};
+
+const rememberPair = async (deviceId: string, pair: GATTPair): Promise<void> => {
+  const pairs = await loadRememberedPairs();
+  const known = pairs[deviceId];
+  if (known && known.service === pair.service && known.write === pair.write && known.notify === pair.notify) {
+    return;
+  }
+  pairs[deviceId] = pair;
+  try {
+    await AsyncStorage.setItem(GATT_PAIRS_KEY, JSON.stringify(pairs));
+  } catch (e) {
+    console.warn('Failed to save BLE characteristic pair:', e);
+  }
+};
+
+// BLE adapters expose the serial link as a writable and a notifying characteristic
+export class BLETransport implements OBDTransport {
+  readonly type = 'ble' as const;
+  readonly name: string;
+  private manager: BleManager;
+  private deviceId: string;
+  private device: Device | null = null;
+  private writeCharacteristic: Characteristic | null = null;
+  private notifySubscription: Subscription | null = null;
+  private disconnectSubscription: Subscription | null = null;
+  private dataListener: ((chunk: string) => void) | null = null;
+  private closeListener: (() => void) | null = null;
+
+  // Connecting by ID works for scanned devices and for remembered ones alike
+  constructor(manager: BleManager, deviceId: string, name: string) {
+    this.manager = manager;
+    this.deviceId = deviceId;
+    this.name = name;
+  }
+
+  async open(): Promise<void> {
+    this.device = await this.manager.connectToDevice(this.deviceId);
+    await this.device.discoverAllServicesAndCharacteristics();
+
+    // Characteristics grouped by (lower-case) service UUID
+    const layout = new Map<string, Characteristic[]>();
+    for (const service of await this.device.services()) {
+      layout.set(service.uuid.toLowerCase(), await service.characteristics());
+    }
+
+    const match = await this.selectPair(layout);
+    if (!match) {
+      throw new Error('No serial characteristics found on this device');
+    }
+
+    const [writeChar, notifyChar] = match.characteristics;
+    this.writeCharacteristic = writeChar;
+    console.log(`BLE link via ${match.profile} (${match.pair.service})`);
+
+    this.notifySubscription = notifyChar.monitor((error, characteristic) => {
+      if (error) {
+        // Cancelled on disconnect - the close listener reports that
+        if (this.device) console.error('Notification error:', error);
+        return;
+      }
+      if (characteristic?.value) {
+        this.dataListener?.(Buffer.from(characteristic.value, 'base64').toString('utf-8'));
+      }
+    });
+
+    this.disconnectSubscription = this.device.onDisconnected(() => {
+      this.disconnectSubscription = null;
+      this.notifySubscription = null;
+      this.writeCharacteristic = null;
+      this.closeListener?.();
+    });
+
+    await rememberPair(this.deviceId, match.pair);
+  }
+
+  /**
+   * Pick the serial characteristics: the pair that worked last time, then the
+   * known adapter profiles, then any custom service with both a writable and
+   * a notifying characteristic.
+   */
+  private async selectPair(layout: Map<string, Characteristic[]>): Promise<{
+    profile: string;
+    pair: GATTPair;
+    characteristics: [Characteristic, Characteristic];
+  } | null> {
+    const find = (pair: GATTPair): [Characteristic, Characteristic] | null => {
+      const chars = layout.get(pair.service) ?? [];
+      const writeChar = chars.find(c => c.uuid.toLowerCase() === pair.write && isWritable(c));
+      const notifyChar = chars.find(c => c.uuid.toLowerCase() === pair.notify && (c.isNotifiable || c.isIndicatable));
+      return writeChar && notifyChar ? [writeChar, notifyChar] : null;
+    };
+
+    const remembered = (await loadRememberedPairs())[this.deviceId];
+    if (remembered) {
+      const characteristics = find(remembered);
+      if (characteristics) return { profile: 'remembered', pair: remembered, characteristics };
+    }
+
+    for (const profile of GATT_PROFILES) {
+      if (profile.namePattern && !profile.namePattern.test(this.name)) continue;
+      const characteristics = find(profile);
+      if (characteristics) {
+        const { service, write, notify } = profile;
+        return { profile: profile.name, pair: { service, write, notify }, characteristics };
+      }
+    }
+
+    for (const [service, chars] of layout) {
+      if (GENERIC_SERVICES.includes(service)) continue;
+      const writeChar = chars.find(isWritable);
+      // Prefer a characteristic that both writes and notifies, as HM-10 style modules do
+      const notifyChar = chars.find(c => c.isNotifiable && isWritable(c))
+        ?? chars.find(c => c.isNotifiable || c.isIndicatable);
+      if (writeChar && notifyChar) {
+        return {
+          profile: 'detected',
+          pair: { service, write: writeChar.uuid.toLowerCase(), notify: notifyChar.uuid.toLowerCase() },
+          characteristics: [writeChar, notifyChar],
+        };
+      }
+    }
+
+    return null;
+  }
+
+  async write(data: string): Promise<void> {
+    if (!this.writeCharacteristic) {
+      throw new Error('No write characteristic');
+    }
+    const encoded = Buffer.from(data, 'utf-8').toString('base64');
+    if (this.writeCharacteristic.isWritableWithResponse) {
+      await this.writeCharacteristic.writeWithResponse(encoded);
+    } else {
+      await this.writeCharacteristic.writeWithoutResponse(encoded);
+    }
+  }
+
+  onData(listener: (chunk: string) => void): void {
+    this.dataListener = listener;
+  }
+
+  onClose(listener: () => void): void {
+    this.closeListener = listener;
+  }
+
+  async close(): Promise<void> {
+    this.disconnectSubscription?.remove();
+    this.disconnectSubscription = null;
+    this.notifySubscription?.remove();
+    this.notifySubscription = null;
+    this.writeCharacteristic = null;
+    const device = this.device;
+    this.device = null;
+    await device?.cancelConnection();
+  }
+}
+
+export default BLETransport;
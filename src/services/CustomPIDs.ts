@@ -0,0 +1,288 @@
+// User-defined PIDs (manufacturer-specific Mode 21/22 data and the like).
+// Values come from an expression over the reply's data bytes, written the way
+// Torque Pro does it: A is the first byte after the echoed mode and PID, B the
+// second, ... Z, then AA, AB... Supported syntax:
+//   + - * / ^, parentheses, decimal numbers
+//   {A:7}       bit 7 of byte A (0 or 1)
+//   SIGNED(A)   byte A as a signed value (-128..127)
+
+export type CustomPIDId = `custom-${string}`;
+
+export interface CustomPID {
+  id: CustomPIDId;
+  name: string;
+  request: string;           // Mode + PID in hex, e.g. '2101' or '221234'
+  header: string;            // Request header ('7E0', '18DA10F1'), '' = OBD functional default
+  expression: string;
+  unit: string;
+  min: number;               // Display range
+  max: number;
+}
+
+// Raised for expressions that do not parse
+export class ExpressionError extends Error {
+  constructor(
+    public readonly expression: string,
+    public readonly position: number,
+    message: string,
+  ) {
+    super(`${message} at position ${position + 1}`);
+    this.name = 'ExpressionError';
+  }
+}
+
+type Evaluator = (bytes: number[]) => number;
+
+// 'A' -> 0, 'Z' -> 25, 'AA' -> 26
+const byteIndex = (name: string): number =>
+  name.length === 1 ? name.charCodeAt(0) - 65 : 26 + (name.charCodeAt(0) - 65) * 26 + (name.charCodeAt(1) - 65);
+
+const byteAt = (index: number): Evaluator => bytes => bytes[index] ?? NaN;
+
+/**
+ * Compile an expression into a function of the data bytes.
+ * Recursive descent: sum -> product -> unary -> power -> primary.
+ */
+export const compileExpression = (expression: string): Evaluator => {
+  const source = expression.toUpperCase();
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new ExpressionError(expression, position, message);
+  };
+  const skipSpaces = () => {
+    while (source[position] === ' ') position++;
+  };
+  const accept = (token: string): boolean => {
+    skipSpaces();
+    if (source.startsWith(token, position)) {
+      position += token.length;
+      return true;
+    }
+    return false;
+  };
+  const expect = (token: string) => {
+    if (!accept(token)) fail(`Expected "${token}"`);
+  };
+
+  const parseSum = (): Evaluator => {
+    let left = parseProduct();
+    for (;;) {
+      if (accept('+')) {
+        const [a, b] = [left, parseProduct()];
+        left = bytes => a(bytes) + b(bytes);
+      } else if (accept('-')) {
+        const [a, b] = [left, parseProduct()];
+        left = bytes => a(bytes) - b(bytes);
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseProduct = (): Evaluator => {
+    let left = parseUnary();
+    for (;;) {
+      if (accept('*')) {
+        const [a, b] = [left, parseUnary()];
+        left = bytes => a(bytes) * b(bytes);
+      } else if (accept('/')) {
+        const [a, b] = [left, parseUnary()];
+        left = bytes => a(bytes) / b(bytes);
+      } else {
+        return left;
+      }
+    }
+  };
+
+  const parseUnary = (): Evaluator => {
+    if (accept('-')) {
+      const operand = parseUnary();
+      return bytes => -operand(bytes);
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): Evaluator => {
+    const base = parsePrimary();
+    if (accept('^')) {
+      const exponent = parseUnary();
+      return bytes => base(bytes) ** exponent(bytes);
+    }
+    return base;
+  };
+
+  const parsePrimary = (): Evaluator => {
+    skipSpaces();
+    if (accept('(')) {
+      const inner = parseSum();
+      expect(')');
+      return inner;
+    }
+    if (accept('{')) {
+      skipSpaces();
+      const name = source.substring(position).match(/^[A-Z]{1,2}/)?.[0] ?? fail('Expected a byte name');
+      position += name.length;
+      expect(':');
+      skipSpaces();
+      const bit = source.substring(position).match(/^[0-7]/)?.[0] ?? fail('Expected a bit number 0-7');
+      position += bit.length;
+      expect('}');
+      const [index, shift] = [byteIndex(name), parseInt(bit, 10)];
+      return bytes => ((bytes[index] ?? NaN) >> shift) & 1;
+    }
+    if (accept('SIGNED(')) {
+      const inner = parseSum();
+      expect(')');
+      return bytes => {
+        const value = inner(bytes);
+        return value > 127 ? value - 256 : value;
+      };
+    }
+
+    const number = source.substring(position).match(/^\d+(\.\d+)?|^\.\d+/)?.[0];
+    if (number) {
+      position += number.length;
+      const value = parseFloat(number);
+      return () => value;
+    }
+
+    const name = source.substring(position).match(/^[A-Z]{1,2}\b/)?.[0];
+    if (name) {
+      position += name.length;
+      return byteAt(byteIndex(name));
+    }
+    return fail(position >= source.length ? 'Unexpected end of expression' : `Unexpected "${source[position]}"`);
+  };
+
+  const evaluator = parseSum();
+  skipSpaces();
+  if (position < source.length) fail(`Unexpected "${source[position]}"`);
+  return evaluator;
+};
+
+// Compiled expressions, so polling does not re-parse them every sample
+const compiled = new Map<string, Evaluator>();
+
+const getEvaluator = (expression: string): Evaluator => {
+  let evaluator = compiled.get(expression);
+  if (!evaluator) {
+    evaluator = compileExpression(expression);
+    compiled.set(expression, evaluator);
+  }
+  return evaluator;
+};
+
+// Positive reply prefix: mode + 0x40, then the PID echoed ('2101' -> '6101')
+export const responsePrefix = (request: string): string =>
+  (parseInt(request.substring(0, 2), 16) + 0x40).toString(16).toUpperCase() + request.substring(2);
+
+/**
+ * Evaluate a custom PID against one reply payload (headers already stripped).
+ * Returns null for other replies, negative responses and incomplete data.
+ */
+export const decodeCustomPID = (pid: CustomPID, payload: string): number | null => {
+  const prefix = responsePrefix(pid.request);
+  if (!payload.startsWith(prefix)) return null;
+
+  const data = payload.substring(prefix.length);
+  const bytes: number[] = [];
+  for (let i = 0; i + 2 <= data.length; i += 2) {
+    bytes.push(parseInt(data.substring(i, i + 2), 16));
+  }
+
+  try {
+    const value = getEvaluator(pid.expression)(bytes);
+    return Number.isFinite(value) ? Math.round(value * 1000) / 1000 : null;
+  } catch {
+    return null;
+  }
+};
+
+// Problems with a definition, empty if it can be polled
+export const validateCustomPID = (pid: Omit<CustomPID, 'id'>): string[] => {
+  const problems: string[] = [];
+  if (!pid.name.trim()) problems.push('Name is required');
+  if (!/^[0-9A-F]{4,8}$/.test(pid.request) || pid.request.length % 2 !== 0) {
+    problems.push('Mode/PID must be hex, e.g. 2101 or 221234');
+  }
+  if (pid.header && !/^([0-9A-F]{3}|[0-9A-F]{6}|[0-9A-F]{8})$/.test(pid.header)) {
+    problems.push('Header must be 3, 6 or 8 hex digits');
+  }
+  try {
+    compileExpression(pid.expression);
+  } catch (error) {
+    problems.push(error instanceof Error ? error.message : 'Invalid expression');
+  }
+  if (!(pid.max > pid.min)) problems.push('Max must be above min');
+  return problems;
+};
+
+export const createCustomPIDId = (): CustomPIDId =>
+  `custom-${Date.now().toString(36)}${Math.random().toString(36).substring(2, 6)}`;
+
+// Split one CSV line, honouring quotes and "" escapes
+const splitCSVLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field.trim());
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field.trim());
+  return fields;
+};
+
+/**
+ * Import Torque Pro extended PID CSV:
+ *   Name,ShortName,ModeAndPID,Equation,Min Value,Max Value,Units,Header
+ * The header row and '#' comments are skipped; ModeAndPID may use 0x prefixes.
+ */
+export const parseTorqueCSV = (text: string): { pids: CustomPID[]; errors: string[] } => {
+  const pids: CustomPID[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    const fields = splitCSVLine(line);
+    if (fields[0].toLowerCase() === 'name') return;
+
+    const [name, , modeAndPid = '', equation = '', min = '', max = '', unit = '', header = ''] = fields;
+    const pid: Omit<CustomPID, 'id'> = {
+      name,
+      request: modeAndPid.replace(/0x/gi, '').replace(/\s/g, '').toUpperCase(),
+      header: header.replace(/0x/gi, '').replace(/\s/g, '').toUpperCase(),
+      expression: equation,
+      unit,
+      min: parseFloat(min),
+      max: parseFloat(max),
+    };
+
+    const problems = validateCustomPID(pid);
+    if (problems.length > 0) {
+      errors.push(`Line ${index + 1} (${name || 'unnamed'}): ${problems[0]}`);
+    } else {
+      pids.push({ ...pid, id: createCustomPIDId() });
+    }
+  });
+
+  return { pids, errors };
+};
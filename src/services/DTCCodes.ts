@@ -0,0 +1,191 @@
+// Diagnostic Trouble Code decoding (SAE J2012)
+// Offline description table covers the generic codes plus the ones
+// commonly seen on Toyota common-rail diesels
+
+export type DTCType = 'stored' | 'pending' | 'permanent';
+
+export type DTCSystem = 'Powertrain' | 'Chassis' | 'Body' | 'Network';
+
+export interface DiagnosticTroubleCode {
+  code: string;              // e.g. "P0401"
+  type: DTCType;
+  system: DTCSystem;
+  description: string;
+}
+
+// Request mode for each DTC type and the mode byte of its positive reply
+export const DTC_MODES: Record<DTCType, { request: string; response: string }> = {
+  stored: { request: '03', response: '43' },
+  pending: { request: '07', response: '47' },
+  permanent: { request: '0A', response: '4A' },
+};
+
+const SYSTEM_LETTERS: { letter: string; system: DTCSystem }[] = [
+  { letter: 'P', system: 'Powertrain' },
+  { letter: 'C', system: 'Chassis' },
+  { letter: 'B', system: 'Body' },
+  { letter: 'U', system: 'Network' },
+];
+
+export const DTC_DESCRIPTIONS: Record<string, string> = {
+  // Fuel and air metering
+  P0087: 'Fuel rail/system pressure too low',
+  P0088: 'Fuel rail/system pressure too high',
+  P0093: 'Fuel system large leak detected',
+  P0100: 'Mass air flow circuit malfunction',
+  P0101: 'Mass air flow circuit range/performance',
+  P0102: 'Mass air flow circuit low input',
+  P0103: 'Mass air flow circuit high input',
+  P0105: 'Manifold absolute pressure circuit malfunction',
+  P0106: 'Manifold absolute pressure range/performance',
+  P0107: 'Manifold absolute pressure circuit low input',
+  P0108: 'Manifold absolute pressure circuit high input',
+  P0110: 'Intake air temperature circuit malfunction',
+  P0112: 'Intake air temperature circuit low input',
+  P0113: 'Intake air temperature circuit high input',
+  P0115: 'Engine coolant temperature circuit malfunction',
+  P0116: 'Engine coolant temperature range/performance',
+  P0117: 'Engine coolant temperature circuit low input',
+  P0118: 'Engine coolant temperature circuit high input',
+  P0120: 'Throttle/pedal position sensor A circuit malfunction',
+  P0121: 'Throttle/pedal position sensor A range/performance',
+  P0122: 'Throttle/pedal position sensor A circuit low input',
+  P0123: 'Throttle/pedal position sensor A circuit high input',
+  P0128: 'Coolant thermostat below regulating temperature',
+  P0130: 'O2 sensor circuit malfunction (bank 1 sensor 1)',
+  P0171: 'System too lean (bank 1)',
+  P0172: 'System too rich (bank 1)',
+  P0180: 'Fuel temperature sensor A circuit malfunction',
+  P0190: 'Fuel rail pressure sensor circuit malfunction',
+  P0191: 'Fuel rail pressure sensor range/performance',
+  P0192: 'Fuel rail pressure sensor circuit low input',
+  P0193: 'Fuel rail pressure sensor circuit high input',
+  P0200: 'Injector circuit malfunction',
+  P0201: 'Injector circuit malfunction - cylinder 1',
+  P0202: 'Injector circuit malfunction - cylinder 2',
+  P0203: 'Injector circuit malfunction - cylinder 3',
+  P0204: 'Injector circuit malfunction - cylinder 4',
+  P0234: 'Turbocharger overboost condition',
+  P0299: 'Turbocharger underboost condition',
+
+  // Ignition / misfire
+  P0300: 'Random/multiple cylinder misfire detected',
+  P0301: 'Cylinder 1 misfire detected',
+  P0302: 'Cylinder 2 misfire detected',
+  P0303: 'Cylinder 3 misfire detected',
+  P0304: 'Cylinder 4 misfire detected',
+  P0335: 'Crankshaft position sensor A circuit malfunction',
+  P0340: 'Camshaft position sensor circuit malfunction',
+  P0380: 'Glow plug/heater circuit A malfunction',
+  P0381: 'Glow plug/heater indicator circuit malfunction',
+
+  // Emission controls
+  P0400: 'Exhaust gas recirculation flow malfunction',
+  P0401: 'Exhaust gas recirculation flow insufficient',
+  P0402: 'Exhaust gas recirculation flow excessive',
+  P0403: 'Exhaust gas recirculation circuit malfunction',
+  P0404: 'Exhaust gas recirculation circuit range/performance',
+  P0405: 'EGR sensor A circuit low',
+  P0406: 'EGR sensor A circuit high',
+  P0420: 'Catalyst system efficiency below threshold (bank 1)',
+  P0440: 'Evaporative emission control system malfunction',
+  P0442: 'Evaporative emission system small leak detected',
+  P0455: 'Evaporative emission system large leak detected',
+  P0488: 'EGR throttle position control range/performance',
+
+  // Speed / idle control
+  P0500: 'Vehicle speed sensor malfunction',
+  P0505: 'Idle control system malfunction',
+  P0560: 'System voltage malfunction',
+  P0562: 'System voltage low',
+  P0563: 'System voltage high',
+
+  // Computer / output circuits
+  P0600: 'Serial communication link malfunction',
+  P0601: 'Internal control module memory checksum error',
+  P0606: 'Control module processor fault',
+  P0627: 'Fuel pump control circuit open',
+
+  // Transmission
+  P0700: 'Transmission control system malfunction',
+  P0705: 'Transmission range sensor circuit malfunction',
+  P0715: 'Input/turbine speed sensor circuit malfunction',
+  P0720: 'Output speed sensor circuit malfunction',
+
+  // Diesel particulate filter / aftertreatment
+  P1251: 'Turbocharger nozzle vane actuator malfunction (Toyota)',
+  P1229: 'Fuel pump system malfunction (Toyota)',
+  P2002: 'Diesel particulate filter efficiency below threshold',
+  P2031: 'Exhaust gas temperature sensor circuit (bank 1 sensor 2)',
+  P2032: 'Exhaust gas temperature sensor circuit low (bank 1 sensor 2)',
+  P2033: 'Exhaust gas temperature sensor circuit high (bank 1 sensor 2)',
+  P2120: 'Throttle/pedal position sensor D circuit malfunction',
+  P2121: 'Throttle/pedal position sensor D range/performance',
+  P2226: 'Barometric pressure circuit malfunction',
+  P2263: 'Turbo boost system performance',
+  P242F: 'Diesel particulate filter restriction - ash accumulation',
+  P2452: 'Diesel particulate filter pressure sensor A circuit',
+  P2453: 'Diesel particulate filter pressure sensor A range/performance',
+  P2463: 'Diesel particulate filter restriction - soot accumulation',
+
+  // Network
+  U0001: 'High speed CAN communication bus',
+  U0100: 'Lost communication with ECM/PCM',
+  U0101: 'Lost communication with TCM',
+  U0121: 'Lost communication with ABS control module',
+  U0155: 'Lost communication with instrument panel cluster',
+};
+
+// Decode two raw DTC bytes (4 hex chars) into the "P0123" form, or null for the 0000 filler
+export const decodeDTC = (hex: string): string | null => {
+  if (hex.length !== 4 || hex === '0000') return null;
+
+  const firstNibble = parseInt(hex[0], 16);
+  if (isNaN(firstNibble)) return null;
+
+  const letter = SYSTEM_LETTERS[firstNibble >> 2].letter;
+  const digit = (firstNibble & 0x03).toString();
+  return `${letter}${digit}${hex.substring(1).toUpperCase()}`;
+};
+
+export const getDTCSystem = (code: string): DTCSystem =>
+  SYSTEM_LETTERS.find(s => s.letter === code[0])?.system ?? 'Powertrain';
+
+export const describeDTC = (code: string): string => {
+  if (DTC_DESCRIPTIONS[code]) return DTC_DESCRIPTIONS[code];
+  // Second character 1 (or 3 for P3xxx) marks manufacturer-specific codes
+  if (code[1] === '1' || code[1] === '3') return 'Manufacturer-specific code';
+  return 'Unknown code';
+};
+
+/**
+ * Extract the DTCs from the messages of a Mode 03/07/0A reply.
+ * Handles both legacy protocols (one "43 xx xx xx xx xx xx" message per 3 codes)
+ * and ISO 15765 CAN, where a count byte follows the mode byte.
+ */
+export const parseDTCResponse = (payloads: string[], type: DTCType): DiagnosticTroubleCode[] => {
+  const modeByte = DTC_MODES[type].response;
+
+  const codes: string[] = [];
+  for (const payload of payloads) {
+    if (!payload.startsWith(modeByte)) continue;
+    let data = payload.substring(2);
+
+    // CAN replies carry an odd byte count (count byte + 2 per code)
+    if ((data.length / 2) % 2 === 1) {
+      data = data.substring(2);
+    }
+
+    for (let i = 0; i + 4 <= data.length; i += 4) {
+      const code = decodeDTC(data.substring(i, i + 4));
+      if (code && !codes.includes(code)) codes.push(code);
+    }
+  }
+
+  return codes.map(code => ({
+    code,
+    type,
+    system: getDTCSystem(code),
+    description: describeDTC(code),
+  }));
+};
@@ -0,0 +1,501 @@
+import type { OBDTransport } from './OBDTransport';
+
+// In-process ELM327 for developing the HUD without a car.
+// Answers AT commands like a v1.5 clone on ISO 15765-4 CAN (11 bit, 500 kbaud)
+// and Mode 01/03/04/07/09/0A requests from a scripted engine model. The engine
+// ECU (7E0) also answers Toyota D-4D Mode 21 blocks 2101 and 2103.
+
+export type SimulatorScenario = 'idle' | 'acceleration' | 'cruise' | 'overheating';
+
+export const SIMULATOR_SCENARIOS: Record<SimulatorScenario, string> = {
+  idle: 'Idle',
+  acceleration: 'Acceleration',
+  cruise: 'Cruise',
+  overheating: 'Overheating',
+};
+
+export interface SimulatorFaults {
+  noDataRate: number;        // 0..1 - share of OBD requests answered with NO DATA
+  canErrorRate: number;      // 0..1 - share answered with CAN ERROR
+  slowReplyRate: number;     // 0..1 - share answered after slowReplyMs
+  slowReplyMs: number;
+}
+
+export const NO_FAULTS: SimulatorFaults = {
+  noDataRate: 0,
+  canErrorRate: 0,
+  slowReplyRate: 0,
+  slowReplyMs: 1500,
+};
+
+export interface SimulatorOptions {
+  scenario: SimulatorScenario;
+  faults?: Partial<SimulatorFaults>;
+  clone?: boolean;           // Behave like a fake "v2.1" built on v1.5 firmware
+}
+
+const REPLY_DELAY = 30;      // ms - typical adapter turnaround
+const ECU_HEADER = '7E8';    // Engine ECU response ID
+const FUNCTIONAL_HEADER = '7DF';
+const ENGINE_REQUEST_HEADER = '7E0';
+const SIM_VIN = 'JTMBH31V505012345';
+const SIM_CALIBRATION_ID = '89663-42D21';
+const SIM_ECU_NAME = 'ECM-EngineControl';
+
+// Mode 01 PIDs the simulated ECU reports (besides the 00/20/.../80 bitmaps)
+const SUPPORTED_PIDS = [
+  '01', '04', '05', '0B', '0C', '0D', '0F', '10', '11', '1F', '21', '23', '2F',
+  '33', '41', '42', '46', '49', '5C', '5E', '62', '63',
+  '70', '74', '78', '7A', '7C', '83', '8E',
+];
+const SUPPORTED_PID_BITMAPS = ['00', '20', '40', '60', '80'];
+const SUPPORTED_VEHICLE_INFO = ['02', '04', '0A'];
+
+// AT commands a v1.5 firmware clone answers with '?'
+const CLONE_UNSUPPORTED_AT = ['PPS', 'IGN', 'AMC', 'AT2'];
+
+interface EngineState {
+  rpm: number;
+  speed: number;             // km/h
+  throttle: number;          // %
+  load: number;              // %
+  coolantTemp: number;       // °C
+  oilTemp: number;           // °C
+  intakeTemp: number;        // °C
+  map: number;               // kPa absolute
+  boostTarget: number;       // kPa absolute
+  railPressure: number;      // MPa
+  turboRpm: number;
+  egt: number;               // °C before the turbine
+  dpfPressure: number;       // kPa across the filter
+  maf: number;               // g/s
+  fuelLevel: number;         // %
+  fuelRate: number;          // L/h
+  batteryVoltage: number;
+  runTime: number;           // s
+}
+
+// Overall gear ratio expressed as rpm per km/h, 1st..5th
+const GEAR_RPM_PER_KMH = [110, 62, 41, 31, 25];
+const AMBIENT_TEMP = 20;
+const INJECTOR_CORRECTIONS = [0.4, -0.6, 0.1, 1.2];  // mm³/stroke, cylinders 1-4
+const BARO_PRESSURE = 100;
+
+const hex = (value: number, bytes: number = 1): string =>
+  Math.max(0, Math.min(Math.round(value), 256 ** bytes - 1))
+    .toString(16).toUpperCase().padStart(bytes * 2, '0');
+
+const asciiHex = (text: string, length: number): string =>
+  text.padEnd(length, '\0').substring(0, length).split('')
+    .map(char => hex(char.charCodeAt(0))).join('');
+
+/**
+ * Scripted engine: each scenario sets a driver input profile over time,
+ * the rest (rpm, load, boost, temperatures) follows from it.
+ */
+class EngineModel {
+  private scenario: SimulatorScenario;
+  private startTime = Date.now();
+  private lastUpdate = Date.now();
+  readonly state: EngineState = {
+    rpm: 800,
+    speed: 0,
+    throttle: 0,
+    load: 20,
+    coolantTemp: 60,
+    oilTemp: 55,
+    intakeTemp: 25,
+    map: BARO_PRESSURE,
+    boostTarget: BARO_PRESSURE,
+    railPressure: 40,
+    turboRpm: 20000,
+    egt: 200,
+    dpfPressure: 1,
+    maf: 8,
+    fuelLevel: 72,
+    fuelRate: 0.8,
+    batteryVoltage: 14.1,
+    runTime: 0,
+  };
+
+  constructor(scenario: SimulatorScenario) {
+    this.scenario = scenario;
+  }
+
+  update(): EngineState {
+    const now = Date.now();
+    const dt = Math.min((now - this.lastUpdate) / 1000, 1);
+    const t = (now - this.startTime) / 1000;
+    this.lastUpdate = now;
+
+    const s = this.state;
+    s.runTime = t;
+
+    // Driver input for the scenario
+    let targetSpeed = 0;
+    switch (this.scenario) {
+      case 'idle':
+        break;
+      case 'acceleration': {
+        // 0-100 km/h in ~12 s, coast back down, repeat every 30 s
+        const phase = t % 30;
+        targetSpeed = phase < 14 ? Math.min(phase * 8.5, 105) : Math.max(105 - (phase - 14) * 7, 0);
+        break;
+      }
+      case 'cruise':
+      case 'overheating':
+        targetSpeed = 90 + Math.sin(t / 8) * 5;
+        break;
+    }
+
+    const accelerating = targetSpeed > s.speed + 1;
+    s.throttle = accelerating ? Math.min(20 + (targetSpeed - s.speed) * 4, 100) : targetSpeed > 0 ? 18 : 0;
+    s.speed += Math.max(Math.min(targetSpeed - s.speed, 9 * dt), -7 * dt);
+    if (s.speed < 0.5) s.speed = 0;
+
+    // Pick the highest gear that keeps the engine above 1300 rpm
+    if (s.speed === 0) {
+      s.rpm = 780 + Math.sin(t * 3) * 15;
+    } else {
+      const gear = GEAR_RPM_PER_KMH.findIndex((ratio, i) =>
+        i === GEAR_RPM_PER_KMH.length - 1 || s.speed * GEAR_RPM_PER_KMH[i + 1] < 1300);
+      s.rpm = Math.max(s.speed * GEAR_RPM_PER_KMH[gear], 900);
+    }
+
+    s.load = Math.min(15 + s.throttle * 0.8 + Math.random() * 2, 100);
+    s.map = BARO_PRESSURE + (s.rpm > 1500 ? s.throttle * 1.2 : s.throttle * 0.3);  // Turbo spools above 1500 rpm
+    s.boostTarget = s.rpm > 1500 ? BARO_PRESSURE + s.throttle * 1.3 : BARO_PRESSURE;
+    s.turboRpm = 20000 + (s.map - BARO_PRESSURE) * 1000;
+    s.railPressure = 30 + s.load * 1.0 + s.rpm / 100;
+    s.maf = (s.rpm / 1000) * (s.map / BARO_PRESSURE) * 12;
+    s.dpfPressure = 1 + s.maf / 10;
+    s.egt = 150 + s.load * 4 + s.rpm / 25;
+    s.fuelRate = 0.8 + s.load * s.rpm / 20000;
+    s.fuelLevel = Math.max(s.fuelLevel - s.fuelRate * dt / 3600 / 60 * 100, 0);  // 60 L tank
+
+    // Warm up to 88 °C; overheating keeps climbing as if the fan had failed
+    const coolantTarget = this.scenario === 'overheating' ? 130 : 88;
+    const warmRate = this.scenario === 'overheating' && s.coolantTemp >= 88 ? 0.5 : 1.5;
+    s.coolantTemp = Math.min(s.coolantTemp + warmRate * dt, coolantTarget);
+    s.oilTemp += (s.coolantTemp - 5 - s.oilTemp) * 0.05 * dt;
+    s.intakeTemp = AMBIENT_TEMP + 5 + (s.map - BARO_PRESSURE) * 0.3;
+    s.batteryVoltage = 14.1 + Math.sin(t / 5) * 0.1;
+
+    return s;
+  }
+
+  get isOverheating(): boolean {
+    return this.state.coolantTemp > 115;
+  }
+}
+
+export class ELM327Emulator implements OBDTransport {
+  readonly type = 'sim' as const;
+  readonly name: string;
+  private engine: EngineModel;
+  private faults: SimulatorFaults;
+  private dataListener: ((chunk: string) => void) | null = null;
+  private inputBuffer = '';
+  private replyTimer: NodeJS.Timeout | null = null;
+  private isOpen = false;
+  private clone: boolean;
+
+  // Adapter settings changed by AT commands
+  private echo = true;
+  private headers = false;
+  private spaces = true;
+  private linefeeds = false;
+  private protocol = '0';
+  private requestHeader = FUNCTIONAL_HEADER;
+
+  // Stored trouble codes as 2-byte hex, cleared by Mode 04
+  private storedCodes: string[] = [];
+  private pendingCodes: string[] = ['0128'];   // P0128 thermostat below regulating temperature
+
+  constructor(options: SimulatorOptions) {
+    this.engine = new EngineModel(options.scenario);
+    this.faults = { ...NO_FAULTS, ...options.faults };
+    this.clone = options.clone ?? false;
+    this.name = `Simulated vehicle (${SIMULATOR_SCENARIOS[options.scenario]})`;
+  }
+
+  async open(): Promise<void> {
+    this.isOpen = true;
+  }
+
+  async write(data: string): Promise<void> {
+    if (!this.isOpen) {
+      throw new Error('Simulator not open');
+    }
+    this.inputBuffer += data;
+
+    const end = this.inputBuffer.indexOf('\r');
+    if (end === -1) return;
+
+    const command = this.inputBuffer.substring(0, end).trim();
+    this.inputBuffer = '';
+    this.respond(command);
+  }
+
+  onData(listener: (chunk: string) => void): void {
+    this.dataListener = listener;
+  }
+
+  // The emulated link never drops on its own
+  onClose(_listener: () => void): void {}
+
+  async close(): Promise<void> {
+    this.isOpen = false;
+    if (this.replyTimer) {
+      clearTimeout(this.replyTimer);
+      this.replyTimer = null;
+    }
+  }
+
+  private respond(command: string): void {
+    const compact = command.replace(/\s/g, '').toUpperCase();
+    let delay = REPLY_DELAY;
+    let reply: string;
+
+    if (compact.startsWith('AT')) {
+      reply = this.handleAT(compact.substring(2));
+    } else if (!/^[0-9A-F]+$/.test(compact) || compact.length % 2 !== 0) {
+      reply = '?';
+    } else {
+      reply = this.injectFault() ?? this.handleRequest(compact);
+      if (Math.random() < this.faults.slowReplyRate) {
+        delay = this.faults.slowReplyMs;
+      }
+      // The first request after ATSP0 runs the protocol search
+      if (this.protocol === '0' && !reply.includes('ERROR')) {
+        reply = `SEARCHING...\r${reply}`;
+        this.protocol = 'A6';
+      }
+    }
+
+    const eol = this.linefeeds ? '\r\n' : '\r';
+    const text = `${this.echo ? command + eol : ''}${reply.replace(/\r/g, eol)}${eol}${eol}>`;
+
+    this.replyTimer = setTimeout(() => {
+      this.replyTimer = null;
+      if (this.isOpen) {
+        this.dataListener?.(text);
+      }
+    }, delay);
+  }
+
+  private injectFault(): string | null {
+    const roll = Math.random();
+    if (roll < this.faults.noDataRate) return 'NO DATA';
+    if (roll < this.faults.noDataRate + this.faults.canErrorRate) return 'CAN ERROR';
+    return null;
+  }
+
+  private handleAT(at: string): string {
+    if (at === 'Z' || at === 'WS') {
+      this.echo = true;
+      this.headers = false;
+      this.spaces = true;
+      this.linefeeds = false;
+      this.protocol = '0';
+      this.requestHeader = FUNCTIONAL_HEADER;
+      return `\r${this.identity}`;
+    }
+    if (this.clone && CLONE_UNSUPPORTED_AT.includes(at)) return '?';
+    if (at === 'I') return this.identity;
+    if (at === '@1') return 'OBDII to RS232 Interpreter';
+    if (at === 'IGN') return 'ON';
+    if (at === 'RV') return `${this.engine.update().batteryVoltage.toFixed(1)}V`;
+    if (at === 'DP') return this.protocol === '0' ? 'AUTO' : 'ISO 15765-4 (CAN 11/500)';
+    if (at === 'DPN') return this.protocol;
+    if (/^E[01]$/.test(at)) this.echo = at[1] === '1';
+    else if (/^H[01]$/.test(at)) this.headers = at[1] === '1';
+    else if (/^S[01]$/.test(at)) this.spaces = at[1] === '1';
+    else if (/^L[01]$/.test(at)) this.linefeeds = at[1] === '1';
+    else if (/^SH[0-9A-F]{3}$/.test(at)) this.requestHeader = at.substring(2);
+    else if (/^SP[0-9A-C]$/.test(at)) this.protocol = at[2] === '0' ? '0' : at[2] === '6' ? '6' : 'X';
+    return 'OK';
+  }
+
+  private get identity(): string {
+    return this.clone ? 'ELM327 v2.1' : 'ELM327 v1.5';
+  }
+
+  private handleRequest(request: string): string {
+    const mode = request.substring(0, 2);
+
+    // Only CAN is simulated - any other forced protocol finds no ECU
+    if (this.protocol === 'X') return 'UNABLE TO CONNECT';
+
+    switch (mode) {
+      case '01':
+        return this.handleMode01(request.substring(2));
+      case '03':
+        return this.frame(`43${this.encodeCodes(this.storedCodes)}`);
+      case '07':
+        return this.frame(`47${this.encodeCodes(this.pendingCodes)}`);
+      case '0A':
+        return this.frame('4A00');
+      case '04':
+        this.storedCodes = [];
+        this.pendingCodes = [];
+        return this.frame('44');
+      case '09':
+        return this.handleMode09(request.substring(2, 4));
+      case '21':
+        // Manufacturer blocks only answer when the engine ECU is addressed directly
+        return this.requestHeader === ENGINE_REQUEST_HEADER ? this.handleMode21(request.substring(2, 4)) : 'NO DATA';
+      default:
+        return 'NO DATA';
+    }
+  }
+
+  // Up to six PIDs per request, answered in a single message like a CAN ECU does
+  private handleMode01(pids: string): string {
+    const state = this.engine.update();
+    if (this.engine.isOverheating && !this.storedCodes.includes('0217')) {
+      this.storedCodes.push('0217');   // P0217 engine overtemperature
+    }
+
+    let data = '';
+    for (let i = 0; i + 2 <= pids.length && i < 12; i += 2) {
+      const pid = pids.substring(i, i + 2);
+      const value = this.encodePid(pid, state);
+      if (value !== null) data += pid + value;
+    }
+    return data ? this.frame(`41${data}`) : 'NO DATA';
+  }
+
+  private encodePid(pid: string, s: EngineState): string | null {
+    if (SUPPORTED_PID_BITMAPS.includes(pid)) {
+      return this.supportedBitmap(SUPPORTED_PIDS, parseInt(pid, 16), pid !== SUPPORTED_PID_BITMAPS[SUPPORTED_PID_BITMAPS.length - 1]);
+    }
+    if (!SUPPORTED_PIDS.includes(pid)) return null;
+
+    const pct = (value: number) => hex(value * 255 / 100);
+    const temp = (value: number) => hex(value + 40);
+    const wideTemp = (value: number) => hex((value + 40) * 10, 2);
+
+    switch (pid) {
+      case '01': {
+        const codes = this.storedCodes.length;
+        // Compression ignition, misfire/fuel/component monitors complete
+        return hex((codes > 0 ? 0x80 : 0) | codes) + '0F' + 'E5' + '20';
+      }
+      case '41': return '00' + '0F' + 'E5' + '20';
+      case '04': return pct(s.load);
+      case '05': return temp(s.coolantTemp);
+      case '0B': return hex(s.map);
+      case '0C': return hex(s.rpm * 4, 2);
+      case '0D': return hex(s.speed);
+      case '0F': return temp(s.intakeTemp);
+      case '10': return hex(s.maf * 100, 2);
+      case '11': return pct(s.throttle);
+      case '1F': return hex(s.runTime, 2);
+      case '21': return hex(0, 2);
+      case '23': return hex(s.railPressure * 100, 2);
+      case '2F': return pct(s.fuelLevel);
+      case '33': return hex(BARO_PRESSURE);
+      case '42': return hex(s.batteryVoltage * 1000, 2);
+      case '46': return temp(AMBIENT_TEMP);
+      case '49': return pct(s.throttle);
+      case '5C': return temp(s.oilTemp);
+      case '5E': return hex(s.fuelRate * 20, 2);
+      case '62': return hex(s.load + 125);
+      case '63': return hex(343, 2);
+      // Diesel PIDs lead with a byte flagging which of the following values are present
+      case '70': return '03' + hex(s.boostTarget * 32, 2) + hex(s.map * 32, 2) + '0000000000';
+      case '74': return '01' + hex(s.turboRpm / 10, 2) + '0000';
+      case '78': return '01' + wideTemp(s.egt) + '000000000000';
+      case '7A': return '01' + hex(s.dpfPressure * 100, 2) + '00000000';
+      case '7C': return '01' + wideTemp(s.egt - 60) + '000000000000';
+      case '83': return '01' + hex(50 + s.load * 3, 2) + '000000000000';
+      case '8E': return hex(125 + 8 + s.rpm / 500);
+      default: return null;
+    }
+  }
+
+  private handleMode09(pid: string): string {
+    switch (pid) {
+      case '00':
+        return this.frame(`4900${this.supportedBitmap(SUPPORTED_VEHICLE_INFO, 0, false)}`);
+      case '02':
+        return this.frame(`490201${asciiHex(SIM_VIN, 17)}`);
+      case '04':
+        return this.frame(`490401${asciiHex(SIM_CALIBRATION_ID, 16)}`);
+      case '0A':
+        return this.frame(`490A01${asciiHex(SIM_ECU_NAME, 20)}`);
+      default:
+        return 'NO DATA';
+    }
+  }
+
+  // Toyota 1CD-FTV engine blocks, laid out as VehiclePacks reads them
+  private handleMode21(block: string): string {
+    const s = this.engine.update();
+    switch (block) {
+      case '01': {
+        const vnPosition = s.rpm > 1500 ? 30 + s.throttle * 0.6 : 20;
+        const egrPosition = s.load < 50 ? 60 - s.load : 0;
+        return this.frame(
+          `6101${hex(s.railPressure * 100, 2)}${hex(s.boostTarget * 100, 2)}${hex(s.map * 100, 2)}` +
+          `${hex(vnPosition * 255 / 100)}${hex(egrPosition * 255 / 100)}`
+        );
+      }
+      case '03':
+        return this.frame(`6103${INJECTOR_CORRECTIONS.map(mm3 => hex((Math.round(mm3 * 10) + 256) % 256)).join('')}`);
+      default:
+        return 'NO DATA';
+    }
+  }
+
+  private supportedBitmap(pids: string[], base: number, hasNext: boolean): string {
+    let bitmap = 0;
+    for (const pid of pids) {
+      const offset = parseInt(pid, 16) - base;
+      if (offset >= 1 && offset <= 32) {
+        bitmap |= 0x80000000 >>> (offset - 1);
+      }
+    }
+    if (hasNext) bitmap |= 1;
+    return (bitmap >>> 0).toString(16).toUpperCase().padStart(8, '0');
+  }
+
+  // CAN replies start with the number of codes; each code is two bytes
+  private encodeCodes(codes: string[]): string {
+    return hex(codes.length) + codes.join('');
+  }
+
+  /**
+   * Format a payload the way the ELM327 prints it on CAN: single frames
+   * up to 7 bytes, otherwise a first frame plus numbered consecutive frames.
+   * Header and spacing follow the ATH/ATS settings.
+   */
+  private frame(payload: string): string {
+    const bytes = payload.match(/.{2}/g) ?? [];
+    const lines: string[][] = [];
+
+    if (bytes.length <= 7) {
+      lines.push(this.headers ? [hex(bytes.length), ...bytes] : bytes);
+    } else if (this.headers) {
+      lines.push([hex(0x10 | (bytes.length >> 8)), hex(bytes.length & 0xff), ...bytes.slice(0, 6)]);
+      for (let i = 6, seq = 1; i < bytes.length; i += 7, seq++) {
+        lines.push([hex(0x20 | (seq & 0x0f)), ...bytes.slice(i, i + 7)]);
+      }
+    } else {
+      // Headers off: byte count line, then "0:", "1:", ...
+      lines.push([hex(bytes.length, 2).substring(1)]);
+      lines.push([`0:`, ...bytes.slice(0, 6)]);
+      for (let i = 6, seq = 1; i < bytes.length; i += 7, seq++) {
+        lines.push([`${(seq & 0x0f).toString(16).toUpperCase()}:`, ...bytes.slice(i, i + 7)]);
+      }
+    }
+
+    const separator = this.spaces ? ' ' : '';
+    return lines
+      .map(line => (this.headers ? [ECU_HEADER, ...line] : line).join(separator))
+      .join('\r');
+  }
+}
+
+export default ELM327Emulator;
@@ -0,0 +1,104 @@
+import type { OBDData } from './OBDService';
+
+// Fuel flow for ECUs that do not report PID 015E (engine fuel rate), worked
+// out from PIDs nearly every ECU has:
+//   petrol  MAF / air-fuel ratio - the engine runs close to stoichiometric
+//   diesel  injected quantity x injections per hour. A diesel's calculated
+//           load (0104) is its fuel quantity against full load, while its
+//           air-fuel ratio swings far too widely for MAF alone to tell much
+// Both are scaled by a factor learnt from fill-ups.
+
+export type FuelType = 'petrol' | 'diesel';
+
+// Where `fuelRate` comes from: the ECU, one of the estimates, or nowhere
+export type FuelRateSource = 'pid' | 'maf' | 'load' | 'none';
+
+export interface FuelModel {
+  fuelType: FuelType;
+  airFuelRatio: number;      // Petrol: grams of air per gram of fuel (14.7 stoichiometric)
+  cylinders: number;         // Diesel
+  fullLoadInjection: number; // Diesel: mm³ per injection at 100 % load
+  calibration: number;       // Multiplier learnt from fill-ups, 1 = uncalibrated
+}
+
+export interface FillUp {
+  at: number;                // ms timestamp
+  liters: number;            // Pumped to fill the tank up to full
+  estimated: number;         // Liters the estimate counted since the previous fill-up (uncalibrated)
+}
+
+// 2.0 D-4D: ~50 mm³ per injection at full load (250 Nm, 2000-3200 rpm)
+export const DEFAULT_FUEL_MODEL: FuelModel = {
+  fuelType: 'diesel',
+  airFuelRatio: 14.7,
+  cylinders: 4,
+  fullLoadInjection: 50,
+  calibration: 1,
+};
+
+// g/L at 15 °C
+const FUEL_DENSITY: Record<FuelType, number> = {
+  petrol: 745,
+  diesel: 832,
+};
+
+// Live data each estimate is computed from
+export const FUEL_ESTIMATE_INPUTS: Record<FuelRateSource, Array<keyof OBDData>> = {
+  pid: [],
+  maf: ['mafRate'],
+  load: ['engineLoad', 'rpm'],
+  none: [],
+};
+
+// A fill-up only says something once the estimate has counted this much fuel
+const MIN_CALIBRATION_FUEL = 10;       // L
+const CALIBRATION_FILL_UPS = 5;        // Most recent fill-ups averaged
+// Pumped vs estimated beyond this means drives went unrecorded (app not connected)
+const CALIBRATION_RATIO_RANGE = { min: 0.5, max: 2 };
+
+// The estimate a vehicle's PIDs allow, when the ECU does not report fuel rate itself
+export const chooseFuelEstimate = (
+  model: FuelModel,
+  isAvailable: (channel: keyof OBDData) => boolean,
+): FuelRateSource => {
+  const source: FuelRateSource = model.fuelType === 'petrol' ? 'maf' : 'load';
+  return FUEL_ESTIMATE_INPUTS[source].every(isAvailable) ? source : 'none';
+};
+
+/**
+ * Uncalibrated fuel flow in L/h from the latest live data.
+ * Multiply by `model.calibration` for the value to show.
+ */
+export const estimateFuelRate = (
+  model: FuelModel,
+  source: FuelRateSource,
+  data: Pick<OBDData, 'mafRate' | 'engineLoad' | 'rpm'>,
+): number => {
+  switch (source) {
+    case 'maf':
+      return data.mafRate / model.airFuelRatio * 3600 / FUEL_DENSITY[model.fuelType];
+    case 'load': {
+      // Four-stroke: every cylinder injects once per two revolutions
+      const injectionsPerHour = model.cylinders * data.rpm / 2 * 60;
+      return model.fullLoadInjection * (data.engineLoad / 100) * injectionsPerHour / 1e6;
+    }
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Calibration factor from the fill-up log: liters pumped over liters
+ * estimated, summed over the recent fill-ups that are plausible.
+ */
+export const calibrationFromFillUps = (fillUps: FillUp[]): number => {
+  const usable = fillUps
+    .filter(({ liters, estimated }) => estimated >= MIN_CALIBRATION_FUEL &&
+      liters / estimated >= CALIBRATION_RATIO_RANGE.min && liters / estimated <= CALIBRATION_RATIO_RANGE.max)
+    .slice(-CALIBRATION_FILL_UPS);
+  if (usable.length === 0) return 1;
+
+  const pumped = usable.reduce((sum, fillUp) => sum + fillUp.liters, 0);
+  const estimated = usable.reduce((sum, fillUp) => sum + fillUp.estimated, 0);
+  return Math.round(pumped / estimated * 1000) / 1000;
+};
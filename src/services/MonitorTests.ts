@@ -0,0 +1,221 @@
+import { chunkHex } from './ResponseParser';
+
+// Mode 06 on-board monitoring test results (ISO 15765 / CAN format)
+// Reply: 46 followed by 9-byte records of
+//   OBDMID, TID, unit-and-scaling ID, test value (2), min limit (2), max limit (2)
+
+export interface MonitorTestResult {
+  mid: string;               // On-board monitor ID, e.g. "31"
+  tid: string;               // Test ID within that monitor
+  monitor: string;           // Human-readable monitor name
+  unit: string;
+  value: number;
+  min: number;
+  max: number;
+  passed: boolean;
+}
+
+interface UnitScaling {
+  unit: string;
+  scale: number;
+  offset?: number;
+  signed?: boolean;
+}
+
+// Unit and scaling IDs (SAE J1979 Appendix E) - common subset
+const UNIT_SCALING: Record<string, UnitScaling> = {
+  '01': { unit: '', scale: 1 },
+  '02': { unit: '', scale: 0.1 },
+  '03': { unit: '', scale: 0.01 },
+  '04': { unit: '', scale: 0.001 },
+  '05': { unit: '', scale: 0.0000305 },
+  '06': { unit: '', scale: 0.000305 },
+  '07': { unit: 'rpm', scale: 0.25 },
+  '08': { unit: 'km/h', scale: 0.01 },
+  '09': { unit: 'km/h', scale: 1 },
+  '0A': { unit: 'mV', scale: 0.122 },
+  '0B': { unit: 'V', scale: 0.001 },
+  '0C': { unit: 'V', scale: 0.01 },
+  '0D': { unit: 'mA', scale: 0.00390625 },
+  '0E': { unit: 'A', scale: 0.001 },
+  '0F': { unit: 'A', scale: 0.01 },
+  '10': { unit: 'ms', scale: 1 },
+  '11': { unit: 'ms', scale: 100 },
+  '12': { unit: 's', scale: 1 },
+  '13': { unit: 'mΩ', scale: 1 },
+  '14': { unit: 'Ω', scale: 1 },
+  '15': { unit: 'kΩ', scale: 1 },
+  '16': { unit: '°C', scale: 0.1, offset: -40 },
+  '17': { unit: 'kPa', scale: 0.01 },
+  '18': { unit: 'kPa', scale: 0.0117 },
+  '19': { unit: 'kPa', scale: 0.079 },
+  '1A': { unit: 'kPa', scale: 1 },
+  '1B': { unit: 'kPa', scale: 10 },
+  '1C': { unit: '°', scale: 0.01 },
+  '1D': { unit: '°', scale: 0.5 },
+  '1E': { unit: 'λ', scale: 0.0000305 },
+  '1F': { unit: 'A/F', scale: 0.05 },
+  '20': { unit: '', scale: 0.0039062 },
+  '21': { unit: 'mHz', scale: 1 },
+  '22': { unit: 'Hz', scale: 1 },
+  '23': { unit: 'kHz', scale: 1 },
+  '24': { unit: 'counts', scale: 1 },
+  '25': { unit: 'km', scale: 1 },
+  '26': { unit: 'mV/ms', scale: 0.1 },
+  '27': { unit: 'g/s', scale: 0.01 },
+  '28': { unit: 'g/s', scale: 1 },
+  '29': { unit: 'Pa/s', scale: 0.25 },
+  '2A': { unit: 'kg/h', scale: 0.001 },
+  '2B': { unit: 'switches', scale: 1 },
+  '2C': { unit: 'g/cyl', scale: 0.01 },
+  '2D': { unit: 'mg/stroke', scale: 0.01 },
+  '2E': { unit: '', scale: 1 },
+  '2F': { unit: '%', scale: 0.01 },
+  '30': { unit: '%', scale: 0.001526 },
+  '31': { unit: 'L', scale: 0.001 },
+  '34': { unit: 'min', scale: 1 },
+  '35': { unit: 'ms', scale: 10 },
+  '36': { unit: 'g', scale: 0.01 },
+  '37': { unit: 'g', scale: 0.1 },
+  '38': { unit: 'g', scale: 1 },
+  '39': { unit: '%', scale: 0.01, offset: -327.68 },
+  '3A': { unit: 'g', scale: 0.001 },
+  '3B': { unit: 'g', scale: 0.0001 },
+  '3C': { unit: 'µs', scale: 0.1 },
+  '3D': { unit: 'mA', scale: 0.01 },
+  '3F': { unit: 'L', scale: 0.01 },
+  '40': { unit: 'ppm', scale: 1 },
+  '41': { unit: 'µA', scale: 0.01 },
+  // Signed variants
+  '81': { unit: '', scale: 1, signed: true },
+  '82': { unit: '', scale: 0.1, signed: true },
+  '83': { unit: '', scale: 0.01, signed: true },
+  '84': { unit: '', scale: 0.001, signed: true },
+  '85': { unit: '', scale: 0.0000305, signed: true },
+  '86': { unit: '', scale: 0.000305, signed: true },
+  '8A': { unit: 'mV', scale: 0.122, signed: true },
+  '8B': { unit: 'V', scale: 0.001, signed: true },
+  '8C': { unit: 'V', scale: 0.01, signed: true },
+  '8D': { unit: 'mA', scale: 0.00390625, signed: true },
+  '8E': { unit: 'A', scale: 0.001, signed: true },
+  '90': { unit: 'ms', scale: 1, signed: true },
+  '96': { unit: '°C', scale: 0.1, signed: true },
+  '99': { unit: 'kPa', scale: 0.1, signed: true },
+  '9C': { unit: '°', scale: 0.01, signed: true },
+  '9D': { unit: '°', scale: 0.5, signed: true },
+  'A8': { unit: 'g/s', scale: 1, signed: true },
+  'A9': { unit: 'Pa/s', scale: 0.25, signed: true },
+  'AD': { unit: 'mg/stroke', scale: 0.01, signed: true },
+  'AE': { unit: 'mg/stroke', scale: 0.1, signed: true },
+  'AF': { unit: '%', scale: 0.01, signed: true },
+  'B0': { unit: '%', scale: 0.003052, signed: true },
+  'B1': { unit: 'mV/s', scale: 2, signed: true },
+  'FC': { unit: 'kPa', scale: 0.01, signed: true },
+  'FD': { unit: 'kPa', scale: 0.001, signed: true },
+  'FE': { unit: 'Pa', scale: 0.25, signed: true },
+};
+
+// On-board monitor IDs (SAE J1979 Appendix D) - common subset
+const MONITOR_NAMES: Record<string, string> = {
+  '01': 'O2 sensor B1S1',
+  '02': 'O2 sensor B1S2',
+  '03': 'O2 sensor B1S3',
+  '05': 'O2 sensor B2S1',
+  '06': 'O2 sensor B2S2',
+  '21': 'Catalyst B1',
+  '22': 'Catalyst B2',
+  '31': 'EGR monitor B1',
+  '32': 'EGR monitor B2',
+  '33': 'EGR monitor B3',
+  '35': 'VVT monitor B1',
+  '36': 'VVT monitor B2',
+  '39': 'EVAP monitor (cap off)',
+  '3A': 'EVAP monitor (0.090")',
+  '3B': 'EVAP monitor (0.040")',
+  '3C': 'EVAP monitor (0.020")',
+  '3D': 'Purge flow monitor',
+  '41': 'O2 heater B1S1',
+  '42': 'O2 heater B1S2',
+  '45': 'O2 heater B2S1',
+  '61': 'Heated catalyst B1',
+  '71': 'Secondary air 1',
+  '81': 'Fuel system B1',
+  '82': 'Fuel system B2',
+  '85': 'Boost pressure B1',
+  '86': 'Boost pressure B2',
+  '90': 'NOx adsorber B1',
+  '91': 'NOx adsorber B2',
+  '98': 'NOx catalyst B1',
+  '99': 'NOx catalyst B2',
+  'A0': 'Misfire general',
+  'A1': 'Misfire cylinder 1',
+  'A2': 'Misfire cylinder 2',
+  'A3': 'Misfire cylinder 3',
+  'A4': 'Misfire cylinder 4',
+  'A5': 'Misfire cylinder 5',
+  'A6': 'Misfire cylinder 6',
+  'B0': 'PM filter B1',
+  'B1': 'PM filter B2',
+};
+
+// MIDs 00/20/40/.../E0 return a bitmap of the next 32 supported MIDs
+export const SUPPORTED_MID_RANGES = ['00', '20', '40', '60', '80', 'A0', 'C0', 'E0'];
+
+const RECORD_BYTES = 9;
+
+export const describeMonitor = (mid: string): string => MONITOR_NAMES[mid] ?? `Monitor ${mid}`;
+
+const scaleValue = (raw: number, scaling: UnitScaling): number => {
+  const value = scaling.signed && raw > 0x7fff ? raw - 0x10000 : raw;
+  return value * scaling.scale + (scaling.offset ?? 0);
+};
+
+// Decode the supported-MID bitmap messages for one range
+export const parseSupportedMids = (messages: string[], range: string): string[] => {
+  const prefix = `46${range}`;
+  const base = parseInt(range, 16);
+  const mids: string[] = [];
+
+  for (const message of messages) {
+    if (!message.startsWith(prefix) || message.length < prefix.length + 8) continue;
+    const bitmap = parseInt(message.substring(prefix.length, prefix.length + 8), 16);
+    // The last bit flags the next range; after E0 there is none (MIDs end at FF)
+    for (let bit = 0; bit < 32 && base + bit + 1 <= 0xff; bit++) {
+      if (bitmap & (0x80000000 >>> bit)) {
+        const mid = (base + bit + 1).toString(16).toUpperCase().padStart(2, '0');
+        if (!mids.includes(mid)) mids.push(mid);
+      }
+    }
+  }
+  return mids;
+};
+
+export const parseMonitorTests = (messages: string[], mid: string): MonitorTestResult[] => {
+  const results: MonitorTestResult[] = [];
+
+  for (const message of messages) {
+    if (!message.startsWith('46')) continue;
+
+    for (const record of chunkHex(message.substring(2), RECORD_BYTES)) {
+      if (record.substring(0, 2) !== mid) continue;
+
+      const tid = record.substring(2, 4);
+      const scaling = UNIT_SCALING[record.substring(4, 6)] ?? { unit: '', scale: 1 };
+      const value = scaleValue(parseInt(record.substring(6, 10), 16), scaling);
+      const min = scaleValue(parseInt(record.substring(10, 14), 16), scaling);
+      const max = scaleValue(parseInt(record.substring(14, 18), 16), scaling);
+
+      results.push({
+        mid,
+        tid,
+        monitor: describeMonitor(mid),
+        unit: scaling.unit,
+        value,
+        min,
+        max,
+        passed: value >= min && value <= max,
+      });
+    }
+  }
+  return results;
+};
@@ -1,5 +1,34 @@
-import { BleManager, Device, Characteristic } from 'react-native-ble-plx';
+import { BleManager, Device } from 'react-native-ble-plx';
 import { Platform, PermissionsAndroid } from 'react-native';
+import { BLETransport } from './BLETransport';
+import { SPPTransport } from './SPPTransport';
+import { TCPTransport } from './TCPTransport';
+import { ELM327Emulator } from './ELM327Emulator';
+import type { SimulatorOptions } from './ELM327Emulator';
+import { DEFAULT_WIFI_HOST, DEFAULT_WIFI_PORT } from './OBDTransport';
+import type { OBDTransport, TransportType, ConnectionTarget } from './OBDTransport';
+import { ADAPTER_PROBES, POLLING_STRATEGIES, buildAdapterProfile, parseStnIdentity } from './AdapterProfile';
+import type { AdapterProfile, AdapterProbe, PollingStrategy } from './AdapterProfile';
+import { DTC_MODES, parseDTCResponse, decodeDTC } from './DTCCodes';
+import type { DTCType, DiagnosticTroubleCode } from './DTCCodes';
+import { splitECUMessages, headerFormatForProtocol, hexToAscii, chunkHex, classifyReply, isEngineECU } from './ResponseParser';
+import type { HeaderFormat, ELMReplyError } from './ResponseParser';
+import { decodeVIN } from './VINDecoder';
+import type { VINInfo } from './VINDecoder';
+import { SUPPORTED_MID_RANGES, parseSupportedMids, parseMonitorTests } from './MonitorTests';
+import type { MonitorTestResult } from './MonitorTests';
+import { decodeReadiness } from './ReadinessMonitors';
+import { PollScheduler } from './PollScheduler';
+import type { PollingStats } from './PollScheduler';
+import { PID_REGISTRY, getPidDefinition, applyPid } from './PIDRegistry';
+import { decodeCustomPID } from './CustomPIDs';
+import type { CustomPID, CustomPIDId } from './CustomPIDs';
+import { DEFAULT_FUEL_MODEL, FUEL_ESTIMATE_INPUTS, chooseFuelEstimate, estimateFuelRate } from './FuelEstimator';
+import type { FuelModel, FuelRateSource } from './FuelEstimator';
+import type { ReadinessReport } from './ReadinessMonitors';
+import { AsyncStorage } from './Storage';
+
+const LAST_CONNECTION_KEY = '@CarHUD:lastConnection';
 
 // OBD-II PIDs (Parameter IDs)
 // Compatible with 2005 Toyota RAV4 Diesel (1CD-FTV D-4D)
@@ -44,6 +73,10 @@ export const OBD_PIDS = {
   COMMANDED_EGR: '012C',
   EGR_ERROR: '012D',
   
+  // Emissions readiness
+  MONITOR_STATUS: '0101',              // MIL, DTC count, monitors since codes cleared
+  MONITOR_STATUS_THIS_DRIVE: '0141',   // Monitors for the current drive cycle
+  
   // System
   BATTERY_VOLTAGE: '0142',
   RUN_TIME: '011F',            // Engine runtime
@@ -51,6 +84,63 @@ export const OBD_PIDS = {
   DISTANCE_SINCE_CLEAR: '0131',
 } as const;
 
+// Mode 09 vehicle information requests
+export const VEHICLE_INFO_PIDS = {
+  VIN: '0902',
+  CALIBRATION_ID: '0904',
+  CVN: '0906',               // Calibration verification numbers
+  ECU_NAME: '090A',
+} as const;
+
+export interface VehicleInfo {
+  vin: string;
+  vinInfo: VINInfo | null;   // Offline decode - null if the VIN is malformed
+  calibrationIds: string[];
+  cvns: string[];            // Hex, one per calibration
+  ecuNames: string[];
+}
+
+// PIDs captured in a Mode 02 freeze frame - request only those the ECU supports in Mode 01
+const FREEZE_FRAME_PIDS = [
+  OBD_PIDS.ENGINE_RPM,
+  OBD_PIDS.VEHICLE_SPEED,
+  OBD_PIDS.COOLANT_TEMP,
+  OBD_PIDS.ENGINE_LOAD,
+  OBD_PIDS.THROTTLE_POSITION,
+  OBD_PIDS.INTAKE_MANIFOLD_PRESSURE,
+  OBD_PIDS.MAF_RATE,
+  OBD_PIDS.INTAKE_AIR_TEMP,
+  OBD_PIDS.FUEL_PRESSURE,
+  OBD_PIDS.FUEL_RATE,
+  OBD_PIDS.ACCELERATOR_POS_D,
+  OBD_PIDS.COMMANDED_EGR,
+  OBD_PIDS.EGR_ERROR,
+  OBD_PIDS.BATTERY_VOLTAGE,
+  OBD_PIDS.RUN_TIME,
+];
+
+// Freeze frame PID 02 holds the DTC that triggered the snapshot
+const FREEZE_FRAME_DTC_PID = '02';
+
+export interface ReadinessStatus {
+  sinceClear: ReadinessReport | null;      // PID 0101
+  thisDriveCycle: ReadinessReport | null;  // PID 0141 - null if unsupported
+}
+
+export interface FreezeFrame {
+  frame: number;             // Frame number (most ECUs only store frame 0)
+  dtc: string | null;        // Code that caused the snapshot
+  data: Partial<OBDData>;    // Engine conditions at that moment
+}
+
+// PIDs 00/20/.../A0 return a bitmap of which of the next 32 PIDs the ECU supports
+const SUPPORTED_PID_RANGES = ['00', '20', '40', '60', '80', 'A0'];
+
+// ISO 15765 lets one Mode 01 request carry up to 6 PIDs
+export const MAX_PIDS_PER_REQUEST = 6;
+// Batched requests answered with a single PID (or nothing) before falling back
+const MULTI_PID_REFUSAL_LIMIT = 2;
+
 export interface OBDData {
   // Engine basics
   rpm: number;
@@ -62,6 +152,8 @@ export interface OBDData {
   // Fuel
   fuelLevel: number;
   fuelRate: number;          // L/h consumption
+  fuelRateSource: FuelRateSource;  // PID 015E, or estimated from MAF / load when the ECU lacks it
+  estimatedFuelUsed: number; // L the estimate counted (uncalibrated) and not yet taken, see takeEstimatedFuel
   fuelPressure: number;      // kPa
   
   // Air/Boost
@@ -85,15 +177,55 @@ export interface OBDData {
   egrCommanded: number;      // %
   egrError: number;          // %
   
+  // Diesel (newer ECUs only)
+  fuelRailPressure: number;  // kPa gauge
+  boostCommanded: number;    // kPa absolute, turbo A
+  boostActual: number;       // kPa absolute, turbo A boost sensor
+  turboRpm: number;
+  egtBank1: number;          // °C, exhaust gas temp sensor 1
+  egtBank2: number;          // °C, 0 on single-bank engines
+  dpfPressureBank1: number;  // kPa across the particulate filter
+  dpfPressureBank2: number;  // kPa
+  dpfInletTemp: number;      // °C
+  noxConcentration: number;  // ppm, sensor 1
+  frictionTorque: number;    // % of reference torque
+  
   // System
   batteryVoltage: number;
   runTime: number;           // seconds
+  distanceWithMIL: number;   // km driven with check engine light on
+  milOn: boolean;            // Check engine light
+  dtcCount: number;          // Confirmed DTCs reported by PID 0101
   
   // Status
   isConnected: boolean;
+  connectionState: ConnectionState;
+  reconnectAttempt: number;  // 1-based while reconnecting, 0 otherwise
   deviceName: string;
+  supportedPids: string[];   // Mode 01 PIDs the ECU reports (e.g. '010C'), empty until discovered
+  vin: string;               // From Mode 09, empty if the ECU does not report it
+  protocol: string;          // ELM327 protocol number (ATDPN), empty until the bus is up
+  ecus: string[];            // Addresses of the ECUs that answered (e.g. '7E8', '7E9')
+  sampleRate: number;        // PID values received per second while polling
+  multiPid: boolean;         // Polling batches several PIDs per request
+  pidValues: Record<string, number>;  // Latest value of every decoded PID by request ('010C'), see PIDRegistry
+  customValues: Record<string, number>;  // Latest value of each user-defined PID by id, see CustomPIDs
+  channelSamples: Record<string, ChannelSample>;  // When each channel (or custom PID id) last got a value
+  pollingPaused: boolean;    // Live data held back, e.g. while the terminal is in use
+}
+
+export interface ChannelSample {
+  receivedAt: number;        // ms timestamp of the latest value
+  count: number;             // Values received since connecting
 }
 
+// Which PID feeds each OBDData channel - used to hide channels the ECU cannot report
+export const OBD_CHANNEL_PIDS: Partial<Record<keyof OBDData, string>> = Object.fromEntries(
+  PID_REGISTRY.flatMap(definition => [definition.key, ...(definition.assigns ?? [])]
+    .filter(channel => channel !== undefined)
+    .map(channel => [channel, `${definition.mode}${definition.pid}`]))
+);
+
 const INITIAL_OBD_DATA: OBDData = {
   rpm: 0,
   speed: 0,
@@ -102,6 +234,8 @@ const INITIAL_OBD_DATA: OBDData = {
   throttlePosition: 0,
   fuelLevel: 0,
   fuelRate: 0,
+  fuelRateSource: 'pid',
+  estimatedFuelUsed: 0,
   fuelPressure: 0,
   intakeAirTemp: 0,
   boostPressure: 0,
@@ -114,32 +248,202 @@ const INITIAL_OBD_DATA: OBDData = {
   acceleratorPosition: 0,
   egrCommanded: 0,
   egrError: 0,
+  fuelRailPressure: 0,
+  boostCommanded: 0,
+  boostActual: 0,
+  turboRpm: 0,
+  egtBank1: 0,
+  egtBank2: 0,
+  dpfPressureBank1: 0,
+  dpfPressureBank2: 0,
+  dpfInletTemp: 0,
+  noxConcentration: 0,
+  frictionTorque: 0,
   batteryVoltage: 0,
   runTime: 0,
+  distanceWithMIL: 0,
+  milOn: false,
+  dtcCount: 0,
   isConnected: false,
+  connectionState: 'disconnected',
+  reconnectAttempt: 0,
   deviceName: '',
+  supportedPids: [],
+  vin: '',
+  protocol: '',
+  ecus: [],
+  sampleRate: 0,
+  multiPid: false,
+  pidValues: {},
+  customValues: {},
+  channelSamples: {},
+  pollingPaused: false,
+};
+
+// Command timing
+const DEFAULT_COMMAND_TIMEOUT = 2000;  // ms - most PIDs answer within ~100ms
+const RESET_COMMAND_TIMEOUT = 5000;    // ms - ATZ reboots the chip
+const PROMPT_RECOVERY_TIMEOUT = 1000;  // ms - wait for a timed-out command's '>' before moving on
+const DTC_COMMAND_TIMEOUT = 5000;      // ms - DTC requests may wait on several ECUs
+const DISCOVERY_COMMAND_TIMEOUT = 10000; // ms - first 0100 also runs ATSP0 protocol search
+const VEHICLE_INFO_TIMEOUT = 5000;     // ms - Mode 09 replies span several frames
+
+// ELM327 protocol numbers (ATSP/ATDPN)
+export const ELM_PROTOCOLS: Record<string, string> = {
+  '1': 'SAE J1850 PWM (41.6 kbaud)',
+  '2': 'SAE J1850 VPW (10.4 kbaud)',
+  '3': 'ISO 9141-2 (5 baud init)',
+  '4': 'ISO 14230-4 KWP (5 baud init)',
+  '5': 'ISO 14230-4 KWP (fast init)',
+  '6': 'ISO 15765-4 CAN (11 bit, 500 kbaud)',
+  '7': 'ISO 15765-4 CAN (29 bit, 500 kbaud)',
+  '8': 'ISO 15765-4 CAN (11 bit, 250 kbaud)',
+  '9': 'ISO 15765-4 CAN (29 bit, 250 kbaud)',
+  'A': 'SAE J1939 CAN (29 bit, 250 kbaud)',
+  'B': 'USER1 CAN (11 bit, 125 kbaud)',
+  'C': 'USER2 CAN (11 bit, 50 kbaud)',
+};
+
+// Protocol numbers that are ISO 15765 CAN
+const CAN_PROTOCOLS = ['6', '7', '8', '9', 'A', 'B', 'C'];
+
+// Channels kept fresh while no screen shows them - engine warnings and fuel estimates
+const BACKGROUND_CHANNELS: Array<keyof OBDData> = ['coolantTemp', 'oilTemp', 'batteryVoltage', 'fuelLevel', 'fuelRate'];
+const BACKGROUND_RATE = 0.1;           // Hz
+const MODE_01_GROUP = '01';            // Scheduler group of the standard PIDs
+const CUSTOM_PID_RATE = 1;             // Hz - manufacturer PIDs are often slow, multi-frame replies
+const FUEL_ESTIMATE_MAX_GAP = 15000;   // ms - longer gaps between inputs are not counted as fuel used
+
+// ELM327 default request header per protocol, restored after addressing one ECU directly
+const DEFAULT_HEADERS: Record<string, string> = {
+  '1': '616AF1',
+  '2': '686AF1',
+  '3': '686AF1',
+  '4': 'C133F1',
+  '5': 'C133F1',
+  '6': '7DF',
+  '7': '18DB33F1',
+  '8': '7DF',
+  '9': '18DB33F1',
+};
+
+// Link supervision
+const STALL_TIMEOUT_LIMIT = 3;         // Consecutive poll timeouts before the link counts as dead
+const RECONNECT_BASE_DELAY = 1000;     // ms - doubled after every failed attempt
+const RECONNECT_MAX_DELAY = 30000;     // ms
+
+// Error replies
+const NO_DATA_UNSUPPORTED_LIMIT = 5;   // Consecutive NO DATA before a channel is no longer polled
+const BUS_ERROR_REINIT_LIMIT = 3;      // Consecutive bus errors before the adapter is reinitialized
+
+export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export type OBDCommandErrorReason = ELMReplyError | 'timeout' | 'disconnected' | 'not_ok';
+
+// Replies that mean the bus itself is in trouble, not just one PID
+const BUS_ERROR_REASONS: OBDCommandErrorReason[] = ['can_error', 'bus_error', 'bus_init_error', 'unable_to_connect', 'searching'];
+
+export type OBDHealthStatus = 'ok' | 'degraded' | 'bus_error' | 'reinitializing';
+
+export interface ChannelHealth {
+  errors: Partial<Record<OBDCommandErrorReason, number>>;  // Failed polls by cause since connecting
+  consecutiveNoData: number;
+  unsupported: boolean;      // Dropped from polling after repeated NO DATA
+}
+
+export interface OBDHealth {
+  status: OBDHealthStatus;   // Outcome of the last poll, or an adapter reinit in progress
+  lastError: { command: string; reason: OBDCommandErrorReason; response: string; at: number } | null;
+  busErrors: number;         // Consecutive bus-level errors
+  reinitializations: number; // Adapter restarts after bus errors since connecting
+  channels: Record<string, ChannelHealth>;  // By polled PID ('010C') or custom PID id
+}
+
+const INITIAL_HEALTH: OBDHealth = {
+  status: 'ok',
+  lastError: null,
+  busErrors: 0,
+  reinitializations: 0,
+  channels: {},
 };
 
-// ELM327 Bluetooth Service/Characteristic UUIDs (common ones)
-const ELM327_SERVICE_UUID = '0000fff0-0000-1000-8000-00805f9b34fb';
-const ELM327_WRITE_UUID = '0000fff2-0000-1000-8000-00805f9b34fb';
-const ELM327_NOTIFY_UUID = '0000fff1-0000-1000-8000-00805f9b34fb';
+// Raised when a queued command does not produce a usable reply
+export class OBDCommandError extends Error {
+  constructor(
+    public readonly command: string,
+    public readonly reason: OBDCommandErrorReason,
+    public readonly response: string = '',
+  ) {
+    super(`${command}: ${reason}${response ? ` (${response})` : ''}`);
+    this.name = 'OBDCommandError';
+  }
+}
+
+// Raw adapter traffic, for the terminal
+export interface TrafficEvent {
+  direction: 'out' | 'in';
+  text: string;              // Command as written, or a reply chunk as received
+  command: string;           // Command the chunk belongs to
+  at: number;
+}
+
+interface PendingCommand {
+  command: string;
+  timeoutMs: number;
+  resolve: (response: string) => void;
+  reject: (error: OBDCommandError) => void;
+  inSequence?: boolean;      // Sent by the sequence that holds the queue
+}
+
+type CommandSender = (command: string, timeoutMs?: number) => Promise<string>;
 
-// Alternative UUIDs for SPP (Serial Port Profile)
-const SPP_SERVICE_UUID = '00001101-0000-1000-8000-00805f9b34fb';
+// Several commands that must reach the adapter back to back (header switch, request, restore)
+interface PendingSequence {
+  name: string;
+  run: (send: CommandSender) => Promise<string>;
+  resolve: (response: string) => void;
+  reject: (error: unknown) => void;
+}
 
 class OBDService {
   private static instance: OBDService | null = null;
   
   private bleManager: BleManager | null = null;
-  private device: Device | null = null;
-  private writeCharacteristic: Characteristic | null = null;
+  private transport: OBDTransport | null = null;
   private data: OBDData = { ...INITIAL_OBD_DATA };
+  private health: OBDHealth = { ...INITIAL_HEALTH };
   private listeners: ((data: OBDData) => void)[] = [];
-  private pollingInterval: NodeJS.Timeout | null = null;
+  private trafficListeners: Set<(event: TrafficEvent) => void> = new Set();
+  private pollingTimer: NodeJS.Timeout | null = null;
+  private isPolling: boolean = false;
   private responseBuffer: string = '';
+  private commandQueue: Array<PendingCommand | PendingSequence> = [];
+  private activeCommand: PendingCommand | null = null;
+  private activeSequence: PendingSequence | null = null;   // Only its commands may go out meanwhile
+  private requestHeader: string = '';        // Header set with ATSH, '' = the adapter's default
+  private commandTimer: NodeJS.Timeout | null = null;
+  private awaitingPrompt: boolean = false;   // A timed-out command's '>' is still due
+  private recoveryTimer: NodeJS.Timeout | null = null;
+  private supportedPids: Set<string> | null = null;  // null = not discovered, poll everything
+  private vehicleInfo: VehicleInfo | null = null;
+  private adapterProfile: AdapterProfile | null = null;
+  private preferredProtocol: string = '';   // Remembered or user-forced protocol, '' = auto search
+  private pollingStrategy: PollingStrategy = POLLING_STRATEGIES.elm327;
+  private headerFormat: HeaderFormat = 'none';
+  private ecuData: Map<string, Partial<OBDData>> = new Map();   // Latest values per responding ECU
+  private channelSources: Partial<Record<keyof OBDData, string>> = {};  // User-chosen ECU per channel
+  private scheduler: PollScheduler | null = null;
+  private interests: Map<number, Array<keyof OBDData | CustomPIDId>> = new Map();   // Channels each mounted view shows
+  private customPids: Map<CustomPIDId, CustomPID> = new Map();
+  private fuelModel: FuelModel = DEFAULT_FUEL_MODEL;
+  private lastFuelEstimateAt: number | null = null;
+  private nextInterestId: number = 1;
   private isAvailable: boolean = false;
   private scannedDevices: Map<string, Device> = new Map();
+  private lastTarget: ConnectionTarget | null = null;   // Link to restore after a drop
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private pendingTransport: OBDTransport | null = null;   // Link being opened; a newer attempt replaces it
+  private autoConnectStarted: boolean = false;
 
   private constructor() {
     try {
@@ -340,301 +644,1428 @@ class OBDService {
   }
 
   async connectToDevice(device: Device): Promise<void> {
+    return this.connectTarget({ type: 'ble', id: device.id, name: device.name ?? 'Unknown Device' });
+  }
+
+  // Paired Classic Bluetooth (SPP) adapters, as { id: address, name }
+  async getPairedDevices(): Promise<Array<{ id: string; name: string }>> {
+    const hasPermission = await this.requestPermissions();
+    if (!hasPermission) {
+      throw new Error('Bluetooth permissions not granted. Please enable Location and Bluetooth in Settings.');
+    }
+    return SPPTransport.getPairedDevices();
+  }
+
+  async connectClassic(address: string, name: string): Promise<void> {
+    return this.connectTarget({ type: 'spp', id: address, name });
+  }
+
+  async connectWifi(host: string = DEFAULT_WIFI_HOST, port: number = DEFAULT_WIFI_PORT): Promise<void> {
+    return this.connectTarget({ type: 'tcp', host, port });
+  }
+
+  // In-process ELM327 with a scripted engine - no adapter or car needed
+  async connectSimulator(options: SimulatorOptions): Promise<void> {
+    return this.connectTarget({ type: 'sim', options });
+  }
+
+  // Open a link chosen by the user and remember it for auto-connect
+  async connectTarget(target: ConnectionTarget): Promise<void> {
+    this.cancelReconnect();
+    this.lastTarget = null;
+    await this.detachTransport();
+    this.setConnectionState('connecting');
+
+    const transport = this.createTransport(target);
     try {
-      this.device = await device.connect();
-      await this.device.discoverAllServicesAndCharacteristics();
-      
-      const services = await this.device.services();
-      
-      for (const service of services) {
-        const characteristics = await service.characteristics();
-        
-        for (const char of characteristics) {
-          if (char.isWritableWithResponse || char.isWritableWithoutResponse) {
-            this.writeCharacteristic = char;
-          }
-          
-          if (char.isNotifiable) {
-            char.monitor((error, characteristic) => {
-              if (error) {
-                console.error('Notification error:', error);
-                return;
-              }
-              if (characteristic?.value) {
-                this.handleResponse(characteristic.value);
-              }
-            });
-          }
-        }
+      await this.connectTransport(transport);
+    } catch (error) {
+      // A newer attempt owns the connection state now
+      if (!this.pendingTransport) {
+        this.setConnectionState('disconnected');
       }
+      throw error;
+    }
+
+    this.lastTarget = target;
+    try {
+      await AsyncStorage.setItem(LAST_CONNECTION_KEY, JSON.stringify(target));
+    } catch (e) {
+      console.warn('Failed to save last connection:', e);
+    }
+  }
+
+  private createTransport(target: ConnectionTarget): OBDTransport {
+    switch (target.type) {
+      case 'ble':
+        if (!this.bleManager) {
+          throw new Error('Bluetooth not available. Please use a development build.');
+        }
+        return new BLETransport(this.bleManager, target.id, target.name);
+      case 'spp':
+        return new SPPTransport(target.id, target.name);
+      case 'tcp':
+        return new TCPTransport(target.host, target.port);
+      case 'sim':
+        return new ELM327Emulator(target.options);
+    }
+  }
+
+  private async connectTransport(transport: OBDTransport): Promise<void> {
+    this.pendingTransport = transport;
+    try {
+      // Only the current link feeds the parser - a replaced one may still deliver
+      transport.onData(chunk => {
+        if (this.transport === transport) this.handleResponse(chunk);
+      });
+      transport.onClose(() => {
+        if (this.transport === transport) this.handleLinkLost('adapter disconnected');
+      });
+      await transport.open();
+      this.throwIfSuperseded(transport);
+      this.transport = transport;
 
       // Initialize ELM327
       await this.initializeAdapter();
+      await this.discoverSupportedPids();
+      await this.readVehicleInfo();
+      this.throwIfSuperseded(transport);
       
       this.data.isConnected = true;
-      this.data.deviceName = device.name ?? 'Unknown Device';
+      this.data.connectionState = 'connected';
+      this.data.reconnectAttempt = 0;
+      this.data.deviceName = transport.name;
       this.notifyListeners();
       
       // Start polling for data
       this.startPolling();
     } catch (error) {
       console.error('Connection error:', error);
+      // Release the link - Wi-Fi and SPP adapters only accept one client
+      if (this.transport === transport) {
+        this.rejectAllCommands('disconnected');
+        this.transport = null;
+      }
+      await transport.close().catch(() => undefined);
       throw error;
+    } finally {
+      if (this.pendingTransport === transport) {
+        this.pendingTransport = null;
+      }
+    }
+  }
+
+  // Another connect, or a disconnect, started while this link was opening
+  private throwIfSuperseded(transport: OBDTransport): void {
+    if (this.pendingTransport !== transport) {
+      throw new Error('Connection attempt cancelled');
+    }
+  }
+
+  // === AUTO-CONNECT & RECONNECT ===
+
+  /**
+   * Reopen the last adapter used, retrying until it answers - the adapter
+   * usually only powers up once the ignition is on. Runs once per app start.
+   */
+  async autoConnect(): Promise<void> {
+    if (this.autoConnectStarted) return;
+    this.autoConnectStarted = true;
+
+    let target: ConnectionTarget | null = null;
+    try {
+      const saved = await AsyncStorage.getItem(LAST_CONNECTION_KEY);
+      target = saved ? JSON.parse(saved) : null;
+    } catch (e) {
+      console.warn('Failed to load last connection:', e);
+    }
+
+    if (!target || this.data.connectionState !== 'disconnected') return;
+    if (target.type !== 'sim' && !this.isAvailable) return;
+
+    console.log(`Auto-connecting to last ${target.type} adapter`);
+    this.lastTarget = target;
+    this.scheduleReconnect(0);
+  }
+
+  // The link died under us (BLE drop, socket closed, adapter stopped answering)
+  private handleLinkLost(reason: string): void {
+    if (this.data.connectionState !== 'connected') return;
+    console.warn(`OBD link lost: ${reason}`);
+
+    this.stopPolling();
+    this.rejectAllCommands('disconnected');
+    const transport = this.transport;
+    this.transport = null;
+    transport?.close().catch(() => undefined);
+
+    this.resetSession();
+    this.scheduleReconnect(0);
+  }
+
+  private scheduleReconnect(attempt: number): void {
+    const target = this.lastTarget;
+    if (!target) {
+      this.setConnectionState('disconnected');
+      return;
+    }
+
+    const delay = Math.min(RECONNECT_BASE_DELAY * 2 ** attempt, RECONNECT_MAX_DELAY);
+    this.data.reconnectAttempt = attempt + 1;
+    this.setConnectionState('reconnecting');
+    console.log(`Reconnect attempt ${attempt + 1} in ${delay} ms`);
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      try {
+        await this.connectTransport(this.createTransport(target));
+      } catch (error) {
+        console.warn(`Reconnect attempt ${attempt + 1} failed:`, error);
+        if (this.lastTarget === target) {
+          this.scheduleReconnect(attempt + 1);
+        }
+      }
+    }, delay);
+  }
+
+  private cancelReconnect(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  private setConnectionState(state: ConnectionState): void {
+    this.data.connectionState = state;
+    if (state !== 'reconnecting') {
+      this.data.reconnectAttempt = 0;
     }
+    this.notifyListeners();
+  }
+
+  getTransportType(): TransportType | null {
+    return this.transport?.type ?? null;
   }
 
   private async initializeAdapter(): Promise<void> {
     // ELM327 initialization sequence
-    await this.sendCommand('ATZ');     // Reset
+    await this.sendCommand('ATZ', RESET_COMMAND_TIMEOUT);  // Reset (replies with version banner)
+    this.requestHeader = '';
     await this.delay(1000);
-    await this.sendCommand('ATE0');    // Echo off
-    await this.sendCommand('ATL0');    // Linefeeds off
-    await this.sendCommand('ATS0');    // Spaces off
-    await this.sendCommand('ATH0');    // Headers off
-    await this.sendCommand('ATSP0');   // Auto protocol
+    await this.sendATCommand('ATE0');    // Echo off
+    await this.sendATCommand('ATL0');    // Linefeeds off
+    await this.sendATCommand('ATS0');    // Spaces off
+    await this.sendATCommand('ATH1');    // Headers on - tells ECUs apart
+
+    const profile = await this.identifyAdapter();
+    this.pollingStrategy = POLLING_STRATEGIES[profile.chip];
+    if (this.pollingStrategy.adaptiveTiming) {
+      await this.probeCommand(this.pollingStrategy.adaptiveTiming);
+    }
+
+    // A known protocol skips the auto search, which can take several seconds
+    if (this.preferredProtocol) {
+      await this.sendATCommand(`ATSP${this.preferredProtocol}`);
+    } else {
+      await this.sendATCommand('ATSP0');   // Auto protocol
+    }
   }
 
-  private async sendCommand(command: string): Promise<void> {
-    if (!this.writeCharacteristic) return;
-    
-    const encoded = Buffer.from(command + '\r', 'utf-8').toString('base64');
-    await this.writeCharacteristic.writeWithResponse(encoded);
+  // Protocol to try first on the next connection ('' = auto search)
+  setPreferredProtocol(protocol: string): void {
+    this.preferredProtocol = protocol in ELM_PROTOCOLS ? protocol : '';
   }
 
-  private handleResponse(base64Value: string): void {
-    const response = Buffer.from(base64Value, 'base64').toString('utf-8');
-    this.responseBuffer += response;
-    
-    // Process complete responses (ending with >)
-    if (this.responseBuffer.includes('>')) {
-      const lines = this.responseBuffer.split('>');
-      for (const line of lines) {
-        this.parseOBDResponse(line.trim());
+  /**
+   * First request on the bus. If the preferred protocol gets no answer
+   * (UNABLE TO CONNECT, BUS INIT error, NO DATA...) fall back to auto search.
+   */
+  private async openProtocol(): Promise<string> {
+    const request = `01${SUPPORTED_PID_RANGES[0]}`;
+    try {
+      const response = await this.sendCommand(request, DISCOVERY_COMMAND_TIMEOUT);
+      if (!this.preferredProtocol || response.replace(/\s/g, '').includes('4100')) {
+        return response;
       }
-      this.responseBuffer = '';
+      console.warn(`Protocol ${this.preferredProtocol} got no answer: ${response}`);
+    } catch (error) {
+      if (!this.preferredProtocol) throw error;
+      console.warn(`Protocol ${this.preferredProtocol} failed:`, error);
     }
+
+    console.log('Falling back to automatic protocol search');
+    await this.sendATCommand('ATSP0');
+    return this.sendCommand(request, DISCOVERY_COMMAND_TIMEOUT);
   }
 
-  private parseOBDResponse(response: string): void {
-    // Remove spaces and newlines
-    const clean = response.replace(/[\s\r\n]/g, '').toUpperCase();
-    
-    // Check for valid response (starts with 41 for mode 01 response)
-    if (!clean.startsWith('41')) return;
-    
-    const pid = clean.substring(2, 4);
-    const dataBytes = clean.substring(4);
-    
-    // Helper to parse single byte as percentage
-    const parsePercent = (hex: string) => Math.round(parseInt(hex, 16) * 100 / 255);
-    // Helper to parse single byte with offset (temp sensors)
-    const parseTemp = (hex: string) => parseInt(hex, 16) - 40;
-    // Helper to parse two bytes
-    const parseTwoBytes = (hex: string) => {
-      const A = parseInt(hex.substring(0, 2), 16);
-      const B = parseInt(hex.substring(2, 4), 16);
-      return 256 * A + B;
-    };
-    
-    switch (pid) {
-      // === ENGINE BASICS ===
-      case '0C': // RPM: ((A*256)+B)/4
-        if (dataBytes.length >= 4) {
-          this.data.rpm = Math.round(parseTwoBytes(dataBytes) / 4);
-        }
-        break;
-        
-      case '0D': // Speed: A km/h
-        if (dataBytes.length >= 2) {
-          this.data.speed = parseInt(dataBytes.substring(0, 2), 16);
-        }
-        break;
-        
-      case '05': // Coolant temp: A-40 °C
-        if (dataBytes.length >= 2) {
-          this.data.coolantTemp = parseTemp(dataBytes.substring(0, 2));
-        }
-        break;
-        
-      case '04': // Engine load: A*100/255 %
-        if (dataBytes.length >= 2) {
-          this.data.engineLoad = parsePercent(dataBytes.substring(0, 2));
-        }
-        break;
-        
-      case '11': // Throttle position: A*100/255 %
-        if (dataBytes.length >= 2) {
-          this.data.throttlePosition = parsePercent(dataBytes.substring(0, 2));
-        }
-        break;
-        
-      // === FUEL SYSTEM ===
-      case '2F': // Fuel level: A*100/255 %
-        if (dataBytes.length >= 2) {
-          this.data.fuelLevel = parsePercent(dataBytes.substring(0, 2));
-        }
-        break;
-        
-      case '5E': // Fuel rate: ((A*256)+B)/20 L/h
-        if (dataBytes.length >= 4) {
-          this.data.fuelRate = Math.round(parseTwoBytes(dataBytes) / 20 * 10) / 10;
-        }
-        break;
-        
-      case '0A': // Fuel pressure: A*3 kPa
-        if (dataBytes.length >= 2) {
-          this.data.fuelPressure = parseInt(dataBytes.substring(0, 2), 16) * 3;
-        }
-        break;
-        
-      // === AIR/BOOST (important for turbo diesel!) ===
-      case '0B': // Intake manifold pressure (MAP/Boost): A kPa
-        if (dataBytes.length >= 2) {
-          this.data.boostPressure = parseInt(dataBytes.substring(0, 2), 16);
-        }
-        break;
-        
-      case '10': // MAF rate: ((A*256)+B)/100 g/s
-        if (dataBytes.length >= 4) {
-          this.data.mafRate = Math.round(parseTwoBytes(dataBytes) / 100 * 10) / 10;
-        }
-        break;
-        
-      case '0F': // Intake air temp: A-40 °C
-        if (dataBytes.length >= 2) {
-          this.data.intakeAirTemp = parseTemp(dataBytes.substring(0, 2));
-        }
-        break;
-        
-      case '33': // Barometric pressure: A kPa
-        if (dataBytes.length >= 2) {
-          this.data.barometricPressure = parseInt(dataBytes.substring(0, 2), 16);
-        }
-        break;
-        
-      // === TEMPERATURES ===
-      case '5C': // Oil temperature: A-40 °C
-        if (dataBytes.length >= 2) {
-          this.data.oilTemp = parseTemp(dataBytes.substring(0, 2));
-        }
-        break;
-        
-      case '46': // Ambient air temp: A-40 °C
-        if (dataBytes.length >= 2) {
-          this.data.ambientTemp = parseTemp(dataBytes.substring(0, 2));
-        }
-        break;
-        
-      // === TORQUE (diesel-specific) ===
-      case '62': // Actual engine torque: A-125 %
-        if (dataBytes.length >= 2) {
-          this.data.actualTorque = parseInt(dataBytes.substring(0, 2), 16) - 125;
-        }
-        break;
-        
-      case '63': // Reference torque: A*256+B Nm
-        if (dataBytes.length >= 4) {
-          this.data.referenceTorque = parseTwoBytes(dataBytes);
-        }
-        break;
-        
-      // === PEDAL POSITION ===
-      case '49': // Accelerator pedal position D: A*100/255 %
-        if (dataBytes.length >= 2) {
-          this.data.acceleratorPosition = parsePercent(dataBytes.substring(0, 2));
-        }
-        break;
-        
-      // === EGR (Exhaust Gas Recirculation - important for diesel!) ===
-      case '2C': // Commanded EGR: A*100/255 %
-        if (dataBytes.length >= 2) {
-          this.data.egrCommanded = parsePercent(dataBytes.substring(0, 2));
-        }
-        break;
-        
-      case '2D': // EGR Error: (A-128)*100/128 %
-        if (dataBytes.length >= 2) {
-          const A = parseInt(dataBytes.substring(0, 2), 16);
-          this.data.egrError = Math.round((A - 128) * 100 / 128);
-        }
-        break;
-        
-      // === SYSTEM ===
-      case '42': // Battery voltage: (A*256+B)/1000 V
-        if (dataBytes.length >= 4) {
-          this.data.batteryVoltage = Math.round(parseTwoBytes(dataBytes) / 100) / 10;
-        }
-        break;
-        
-      case '1F': // Run time since start: A*256+B seconds
-        if (dataBytes.length >= 4) {
-          this.data.runTime = parseTwoBytes(dataBytes);
+  // === ADAPTER IDENTIFICATION ===
+
+  /**
+   * Work out what chip is really inside the adapter.
+   * STN chips answer the ST-prefixed commands; for everything else the
+   * ATI version claim is checked against commands that version must know.
+   */
+  private async identifyAdapter(): Promise<AdapterProfile> {
+    const identity = await this.readAdapterText('ATI');
+    const description = await this.readAdapterText('AT@1');
+    const stnIdentity = parseStnIdentity(await this.readAdapterText('STI'));
+    const stnDevice = stnIdentity ? await this.readAdapterText('STDI') || null : null;
+    const voltage = await this.readAdapterText('ATRV');
+
+    const probes: AdapterProbe[] = [];
+    for (const probe of ADAPTER_PROBES) {
+      probes.push({ ...probe, supported: await this.probeCommand(probe.command) });
+    }
+
+    const profile = buildAdapterProfile({ identity, description, stnIdentity, stnDevice, voltage, probes });
+    this.adapterProfile = profile;
+    console.log(`Adapter: ${profile.identity} (${profile.chip})`, profile.cloneReasons.join('; '));
+    return profile;
+  }
+
+  getAdapterProfile(): AdapterProfile | null {
+    return this.adapterProfile;
+  }
+
+  // Reply text of an informational command, '' if the adapter does not know it
+  private async readAdapterText(command: string): Promise<string> {
+    try {
+      return (await this.sendCommand(command)).trim();
+    } catch (error) {
+      return '';
+    }
+  }
+
+  // True when the adapter accepts the command (anything but '?' or silence)
+  private async probeCommand(command: string): Promise<boolean> {
+    try {
+      await this.sendCommand(command);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Ask the ECU which Mode 01 PIDs it supports.
+   * Each range request returns a 32-bit bitmap; the last bit says whether
+   * the next range is worth querying. Several ECUs may answer, so bitmaps are OR'd.
+   */
+  private async discoverSupportedPids(): Promise<void> {
+    const supported = new Set<string>();
+
+    for (const range of SUPPORTED_PID_RANGES) {
+      if (range !== '00' && !supported.has(`01${range}`)) break;
+
+      try {
+        const response = range === '00'
+          ? await this.openProtocol()
+          : await this.sendCommand(`01${range}`, DISCOVERY_COMMAND_TIMEOUT);
+        // The first request settles the protocol - only then is the frame format known
+        if (range === '00') {
+          await this.detectProtocol();
         }
+        this.decodeSupportedPids(response, range).forEach(pid => supported.add(pid));
+      } catch (error) {
+        console.warn(`Supported PID query 01${range} failed:`, error);
         break;
+      }
     }
-    
-    this.notifyListeners();
+
+    this.supportedPids = supported.size > 0 ? supported : null;
+    this.data.supportedPids = Array.from(supported).sort();
+    console.log(`Supported PIDs (${supported.size}):`, this.data.supportedPids.join(' '));
+    this.updateFuelRateSource();
   }
 
-  private startPolling(): void {
-    // Priority PIDs - queried frequently
-    const priorityPids = [
-      OBD_PIDS.ENGINE_RPM,
-      OBD_PIDS.VEHICLE_SPEED,
-      OBD_PIDS.INTAKE_MANIFOLD_PRESSURE, // Boost!
-      OBD_PIDS.THROTTLE_POSITION,
-    ];
-    
-    // Secondary PIDs - queried less frequently
-    const secondaryPids = [
-      OBD_PIDS.COOLANT_TEMP,
-      OBD_PIDS.ENGINE_OIL_TEMP,
-      OBD_PIDS.FUEL_RATE,
-      OBD_PIDS.FUEL_LEVEL,
-      OBD_PIDS.INTAKE_AIR_TEMP,
-      OBD_PIDS.AMBIENT_AIR_TEMP,
-      OBD_PIDS.ACTUAL_TORQUE,
-      OBD_PIDS.COMMANDED_EGR,
-      OBD_PIDS.BATTERY_VOLTAGE,
-    ];
-    
-    let priorityIndex = 0;
-    let secondaryIndex = 0;
-    let cycleCount = 0;
-    
-    this.pollingInterval = setInterval(async () => {
-      if (this.data.isConnected) {
-        // Every 5th query, get a secondary PID instead
-        if (cycleCount % 5 === 4 && secondaryPids.length > 0) {
-          await this.sendCommand(secondaryPids[secondaryIndex]);
-          secondaryIndex = (secondaryIndex + 1) % secondaryPids.length;
-        } else {
-          await this.sendCommand(priorityPids[priorityIndex]);
-          priorityIndex = (priorityIndex + 1) % priorityPids.length;
+  private decodeSupportedPids(response: string, range: string): string[] {
+    const base = parseInt(range, 16);
+    const prefix = `41${range}`;
+    const pids: string[] = [];
+
+    for (const clean of this.splitResponse(response)) {
+      if (!clean.startsWith(prefix) || clean.length < prefix.length + 8) continue;
+
+      const bitmap = parseInt(clean.substring(prefix.length, prefix.length + 8), 16);
+      for (let bit = 0; bit < 32; bit++) {
+        // MSB is PID base+1, LSB is PID base+32
+        if (bitmap & (0x80000000 >>> bit)) {
+          const pid = (base + bit + 1).toString(16).toUpperCase().padStart(2, '0');
+          pids.push(`01${pid}`);
         }
-        cycleCount++;
       }
-    }, 150); // Query every 150ms for responsive display
+    }
+    return pids;
   }
 
-  private stopPolling(): void {
-    if (this.pollingInterval) {
-      clearInterval(this.pollingInterval);
-      this.pollingInterval = null;
+  // === VEHICLE INFORMATION (MODE 09) ===
+
+  /**
+   * Read VIN, calibration IDs, CVNs and ECU names.
+   * Each item is optional - older ECUs often only report the VIN, and
+   * pre-2005 vehicles may not support Mode 09 at all.
+   */
+  async readVehicleInfo(): Promise<VehicleInfo> {
+    const vinHex = await this.readMode09(VEHICLE_INFO_PIDS.VIN);
+    const calibrationHex = await this.readMode09(VEHICLE_INFO_PIDS.CALIBRATION_ID);
+    const cvnHex = await this.readMode09(VEHICLE_INFO_PIDS.CVN);
+    const ecuNameHex = await this.readMode09(VEHICLE_INFO_PIDS.ECU_NAME);
+
+    const vin = hexToAscii(vinHex).trim();
+    const info: VehicleInfo = {
+      vin,
+      vinInfo: vin ? decodeVIN(vin) : null,
+      calibrationIds: chunkHex(calibrationHex, 16).map(hexToAscii).map(id => id.trim()).filter(Boolean),
+      cvns: chunkHex(cvnHex, 4),
+      ecuNames: chunkHex(ecuNameHex, 20).map(hexToAscii).map(name => name.trim()).filter(Boolean),
+    };
+
+    this.vehicleInfo = info;
+    this.data.vin = info.vin;
+    this.notifyListeners();
+    console.log('Vehicle info:', JSON.stringify(info));
+    return info;
+  }
+
+  getVehicleInfo(): VehicleInfo | null {
+    return this.vehicleInfo;
+  }
+
+  // Return the data bytes of a Mode 09 reply as hex, or '' if unsupported
+  private async readMode09(pid: string): Promise<string> {
+    let response: string;
+    try {
+      response = await this.sendCommand(pid, VEHICLE_INFO_TIMEOUT);
+    } catch (error) {
+      console.warn(`Mode 09 request ${pid} failed:`, error);
+      return '';
     }
+
+    // Every message starts with 49 <pid> followed by an item count (CAN)
+    // or a sequence number (legacy protocols) - skip those three bytes
+    const prefix = `49${pid.substring(2)}`;
+    return this.splitResponse(response)
+      .filter(message => message.startsWith(prefix))
+      .map(message => message.substring(6))
+      .join('');
   }
 
-  async disconnect(): Promise<void> {
-    this.stopPolling();
-    
-    if (this.device) {
-      await this.device.cancelConnection();
-      this.device = null;
+  // True when the ECU reported the PID, or when support has not been discovered
+  isPidSupported(pid: string): boolean {
+    return this.supportedPids === null || this.supportedPids.has(pid.toUpperCase());
+  }
+
+  isChannelSupported(channel: keyof OBDData): boolean {
+    const pid = OBD_CHANNEL_PIDS[channel];
+    return pid === undefined || this.isPidSupported(pid);
+  }
+
+  // Send an AT command and make sure the adapter acknowledged it
+  private async sendATCommand(command: string): Promise<string> {
+    const response = await this.sendCommand(command);
+    if (!response.toUpperCase().includes('OK')) {
+      throw new OBDCommandError(command, 'not_ok', response);
     }
-    
-    this.writeCharacteristic = null;
-    this.data = { ...INITIAL_OBD_DATA };
-    this.notifyListeners();
+    return response;
+  }
+
+  /**
+   * Queue a command for the adapter and resolve with its raw reply.
+   * Commands are sent one at a time - the next one is only written after
+   * the ELM327 returns its '>' prompt for the previous one.
+   */
+  sendCommand(command: string, timeoutMs: number = DEFAULT_COMMAND_TIMEOUT): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.transport) {
+        reject(new OBDCommandError(command, 'disconnected'));
+        return;
+      }
+      this.commandQueue.push({ command, timeoutMs, resolve, reject });
+      this.processQueue();
+    });
+  }
+
+  /**
+   * Queue commands that have the adapter to themselves: nothing else is
+   * written from the first of them until `run` settles. Commands must be
+   * sent through the `send` it is given.
+   */
+  private sendSequence(name: string, run: (send: CommandSender) => Promise<string>): Promise<string> {
+    return new Promise((resolve, reject) => {
+      if (!this.transport) {
+        reject(new OBDCommandError(name, 'disconnected'));
+        return;
+      }
+      this.commandQueue.push({ name, run, resolve, reject });
+      this.processQueue();
+    });
+  }
+
+  private runSequence(sequence: PendingSequence): void {
+    this.activeSequence = sequence;
+    const send: CommandSender = (command, timeoutMs = DEFAULT_COMMAND_TIMEOUT) => new Promise((resolve, reject) => {
+      if (!this.transport || this.activeSequence !== sequence) {
+        reject(new OBDCommandError(command, 'disconnected'));
+        return;
+      }
+      this.commandQueue.unshift({ command, timeoutMs, resolve, reject, inSequence: true });
+      this.processQueue();
+    });
+
+    sequence.run(send)
+      .then(sequence.resolve, sequence.reject)
+      .finally(() => {
+        // A disconnect may have dropped it already and a new one started since
+        if (this.activeSequence !== sequence) return;
+        this.activeSequence = null;
+        this.processQueue();
+      });
+  }
+
+  private processQueue(): void {
+    if (this.activeCommand || this.awaitingPrompt) return;
+
+    // While a sequence runs, its own commands are the only ones sent
+    const index = this.activeSequence
+      ? this.commandQueue.findIndex(entry => 'command' in entry && entry.inSequence)
+      : 0;
+    if (index === -1 || index >= this.commandQueue.length) return;
+
+    const [next] = this.commandQueue.splice(index, 1);
+    if (!('command' in next)) {
+      this.runSequence(next);
+      return;
+    }
+    this.activeCommand = next;
+
+    this.commandTimer = setTimeout(() => {
+      // Hold the queue first, so settling does not write the next command into a busy chip
+      this.awaitingPrompt = true;
+      this.settleActiveCommand(new OBDCommandError(next.command, 'timeout', this.responseBuffer.trim()));
+      this.recoverPrompt();
+    }, next.timeoutMs);
+
+    this.emitTraffic('out', next.command, next.command);
+    this.writeCommand(next.command).catch((error) => {
+      console.error(`Write failed for ${next.command}:`, error);
+      this.settleActiveCommand(new OBDCommandError(next.command, 'disconnected'));
+    });
+  }
+
+  private async writeCommand(command: string): Promise<void> {
+    if (!this.transport) {
+      throw new Error('No transport open');
+    }
+    await this.transport.write(command + '\r');
+  }
+
+  // Resolve or reject the in-flight command and move on to the next one
+  private settleActiveCommand(result: string | OBDCommandError): void {
+    const active = this.activeCommand;
+    if (!active) return;
+
+    if (this.commandTimer) {
+      clearTimeout(this.commandTimer);
+      this.commandTimer = null;
+    }
+    this.activeCommand = null;
+
+    if (result instanceof OBDCommandError) {
+      active.reject(result);
+    } else {
+      active.resolve(result);
+    }
+    this.processQueue();
+  }
+
+  /**
+   * The chip may still be working on a timed-out command. A byte makes it
+   * stop and print its prompt; until that '>' arrives (or a short wait
+   * passes, if the reply was simply lost) nothing else is written, so a
+   * late reply cannot be taken for the next command's.
+   */
+  private recoverPrompt(): void {
+    this.transport?.write(' ').catch(error => console.warn('Interrupt after timeout failed:', error));
+    this.recoveryTimer = setTimeout(() => {
+      this.responseBuffer = '';
+      this.releasePrompt();
+    }, PROMPT_RECOVERY_TIMEOUT);
+  }
+
+  private releasePrompt(): void {
+    if (this.recoveryTimer) {
+      clearTimeout(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+    this.awaitingPrompt = false;
+    this.processQueue();
+  }
+
+  private rejectAllCommands(reason: OBDCommandErrorReason): void {
+    if (this.recoveryTimer) {
+      clearTimeout(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+    this.awaitingPrompt = false;
+    this.activeSequence = null;
+    this.responseBuffer = '';
+    const pending = this.commandQueue;
+    this.commandQueue = [];
+    pending.forEach(entry => entry.reject(
+      new OBDCommandError('command' in entry ? entry.command : entry.name, reason)
+    ));
+    this.settleActiveCommand(new OBDCommandError(this.activeCommand?.command ?? '', reason));
+  }
+
+  private handleResponse(chunk: string): void {
+    this.emitTraffic('in', chunk, this.activeCommand?.command ?? '');
+    this.responseBuffer += chunk;
+    
+    // A reply is complete once the adapter prints its '>' prompt; anything
+    // after it stays in the buffer for the next one
+    let promptIndex: number;
+    while ((promptIndex = this.responseBuffer.indexOf('>')) !== -1) {
+      const raw = this.responseBuffer.substring(0, promptIndex);
+      this.responseBuffer = this.responseBuffer.substring(promptIndex + 1);
+
+      // Tail of a timed-out command - the chip is idle again
+      if (this.awaitingPrompt) {
+        this.releasePrompt();
+        continue;
+      }
+
+      const active = this.activeCommand;
+      if (!active) continue;   // Prompt nobody waits for (e.g. after an interrupt)
+
+      const reply = this.cleanResponse(active.command, raw);
+      const error = classifyReply(reply);
+      this.settleActiveCommand(error ? new OBDCommandError(active.command, error, reply) : reply);
+    }
+  }
+
+  /**
+   * Cut a long-running command short (ATMA monitoring, a slow search):
+   * any byte makes the ELM327 stop, print STOPPED and return its prompt.
+   * A space is used because the adapter ignores it in the next command.
+   */
+  async interruptCommand(): Promise<void> {
+    if (!this.activeCommand || !this.transport) return;
+    await this.transport.write(' ');
+  }
+
+  // Watch everything written to and received from the adapter
+  onTraffic(listener: (event: TrafficEvent) => void): () => void {
+    this.trafficListeners.add(listener);
+    return () => {
+      this.trafficListeners.delete(listener);
+    };
+  }
+
+  private emitTraffic(direction: TrafficEvent['direction'], text: string, command: string): void {
+    if (this.trafficListeners.size === 0) return;
+    const event: TrafficEvent = { direction, text, command, at: Date.now() };
+    this.trafficListeners.forEach(listener => listener(event));
+  }
+
+  // Strip the command echo (present until ATE0) and blank lines
+  private cleanResponse(command: string, raw: string): string {
+    const lines = raw
+      .split(/[\r\n]+/)
+      .map(line => line.trim())
+      .filter(line => line.length > 0);
+
+    if (lines.length > 0 && lines[0].replace(/\s/g, '').toUpperCase() === command.toUpperCase()) {
+      lines.shift();
+    }
+    return lines.join('\n');
+  }
+
+  // === MULTI-ECU RESPONSES ===
+
+  private async detectProtocol(): Promise<void> {
+    try {
+      const protocol = await this.getProtocolNumber();
+      this.data.protocol = protocol in ELM_PROTOCOLS ? protocol : '';
+      this.headerFormat = headerFormatForProtocol(protocol);
+      console.log(`Protocol ${protocol}, header format: ${this.headerFormat}`);
+    } catch (error) {
+      // Header bytes of an unknown layout would be read as data - turn them off
+      console.warn('Protocol detection failed, headers off:', error);
+      this.headerFormat = 'none';
+      await this.sendATCommand('ATH0');
+    }
+  }
+
+  // Payloads of every message in a reply, headers stripped
+  private splitResponse(response: string): string[] {
+    return splitECUMessages(response, this.headerFormat).map(message => message.data);
+  }
+
+  /**
+   * Choose which ECU feeds a channel: the user's pick if that ECU reports it,
+   * otherwise the lowest address that does (engine before transmission).
+   */
+  private getSourceEcu(channel: keyof OBDData): string | undefined {
+    const reporting = Array.from(this.ecuData.entries())
+      .filter(([, values]) => values[channel] !== undefined)
+      .map(([ecu]) => ecu)
+      .sort();
+    const preferred = this.channelSources[channel];
+    return preferred && reporting.includes(preferred) ? preferred : reporting[0];
+  }
+
+  // ECUs that report each channel - only channels with a choice are interesting to the UI
+  getChannelEcus(): Partial<Record<keyof OBDData, string[]>> {
+    const channels: Partial<Record<keyof OBDData, string[]>> = {};
+    this.ecuData.forEach((values, ecu) => {
+      (Object.keys(values) as (keyof OBDData)[]).forEach(channel => {
+        channels[channel] = [...(channels[channel] ?? []), ecu].sort();
+      });
+    });
+    return channels;
+  }
+
+  getChannelSources(): Partial<Record<keyof OBDData, string>> {
+    return { ...this.channelSources };
+  }
+
+  setChannelSources(sources: Partial<Record<keyof OBDData, string>>): void {
+    this.channelSources = { ...sources };
+
+    // Re-pick values already received so the change shows immediately
+    (Object.keys(this.getChannelEcus()) as (keyof OBDData)[]).forEach(channel => {
+      const ecu = this.getSourceEcu(channel);
+      const value = ecu !== undefined ? this.ecuData.get(ecu)?.[channel] : undefined;
+      if (value !== undefined) {
+        Object.assign(this.data, { [channel]: value });
+      }
+    });
+    this.notifyListeners();
+  }
+
+  /**
+   * Split a Mode 01 reply payload (without the 41) into PID records.
+   * A batched reply repeats PID + data bytes for each PID requested;
+   * a PID of unknown length can only be decoded when it comes last.
+   */
+  private splitPidRecords(payload: string): Array<{ pid: string; dataBytes: string }> {
+    const records: Array<{ pid: string; dataBytes: string }> = [];
+    let position = 0;
+
+    while (position + 2 <= payload.length) {
+      const pid = payload.substring(position, position + 2);
+      const length = getPidDefinition(`01${pid}`)?.bytes;
+      if (length === undefined) {
+        records.push({ pid, dataBytes: payload.substring(position + 2) });
+        break;
+      }
+      if (position + 2 + length * 2 > payload.length) break;
+      records.push({ pid, dataBytes: payload.substring(position + 2, position + 2 + length * 2) });
+      position += 2 + length * 2;
+    }
+    return records;
+  }
+
+  // Decode live data and publish it - returns the PIDs that arrived (e.g. '010C')
+  private parseOBDResponse(response: string): string[] {
+    // Only Mode 01 replies (41 xx) carry live data
+    const messages = splitECUMessages(response, this.headerFormat)
+      .filter(message => message.data.startsWith('41'));
+    if (messages.length === 0) return [];
+    
+    const received = new Set<string>();
+    for (const message of messages) {
+      if (!this.data.ecus.includes(message.ecu)) {
+        this.data.ecus = [...this.data.ecus, message.ecu].sort();
+      }
+
+      // Keep every ECU's answer, then publish the one selected for each channel
+      const decoded: Partial<OBDData> = {};
+      const values: Record<string, number> = {};
+      this.splitPidRecords(message.data.substring(2)).forEach(({ pid, dataBytes }) => {
+        const value = this.decodePid(pid, dataBytes, decoded);
+        if (value !== null) {
+          values[`01${pid}`] = value;
+          received.add(`01${pid}`);
+        }
+      });
+      // Fields without an ECU choice - the last responder wins
+      this.data.pidValues = { ...this.data.pidValues, ...values };
+      this.ecuData.set(message.ecu, { ...this.ecuData.get(message.ecu), ...decoded });
+
+      const published = (Object.keys(decoded) as (keyof OBDData)[])
+        .filter(channel => this.getSourceEcu(channel) === message.ecu);
+      published.forEach(channel => {
+        Object.assign(this.data, { [channel]: decoded[channel] });
+      });
+      this.stampChannels(published);
+    }
+    this.updateFuelEstimate(Array.from(received));
+    
+    this.notifyListeners();
+    return Array.from(received);
+  }
+
+  // Note the arrival of new values for these channels
+  private stampChannels(channels: string[], receivedAt: number = Date.now()): void {
+    if (channels.length === 0) return;
+    const samples = { ...this.data.channelSamples };
+    channels.forEach(channel => {
+      samples[channel] = { receivedAt, count: (samples[channel]?.count ?? 0) + 1 };
+    });
+    this.data.channelSamples = samples;
+  }
+
+  /**
+   * Decode one PID's data bytes into the matching OBDData field(s) using
+   * the PID registry. Shared by live data (Mode 01) and freeze frames (Mode 02).
+   * Returns the decoded value, or null for unknown PIDs and short replies.
+   */
+  private decodePid(pid: string, dataBytes: string, target: Partial<OBDData>): number | null {
+    const definition = getPidDefinition(`01${pid}`);
+    return definition ? applyPid(definition, dataBytes, target) : null;
+  }
+
+  // === DIAGNOSTIC TROUBLE CODES ===
+
+  // Read one class of DTCs (Mode 03 stored, 07 pending, 0A permanent)
+  async readDTCs(type: DTCType): Promise<DiagnosticTroubleCode[]> {
+    try {
+      const response = await this.sendCommand(DTC_MODES[type].request, DTC_COMMAND_TIMEOUT);
+      return parseDTCResponse(this.splitResponse(response), type);
+    } catch (error) {
+      // NO DATA means no codes; '?' means the ECU predates this mode (Mode 0A is 2010+)
+      if (error instanceof OBDCommandError &&
+          (error.reason === 'no_data' || error.reason === 'unknown_command')) {
+        return [];
+      }
+      throw error;
+    }
+  }
+
+  async readAllDTCs(): Promise<DiagnosticTroubleCode[]> {
+    const stored = await this.readDTCs('stored');
+    const pending = await this.readDTCs('pending');
+    const permanent = await this.readDTCs('permanent');
+
+    // Refresh distance with MIL on alongside the codes
+    try {
+      this.parseOBDResponse(await this.sendCommand(OBD_PIDS.DISTANCE_WITH_MIL));
+    } catch {
+      // Not all ECUs support PID 21
+    }
+
+    return [...stored, ...pending, ...permanent];
+  }
+
+  /**
+   * Clear stored DTCs and freeze frames (Mode 04).
+   * Only allowed while the vehicle is stationary - clearing also resets
+   * the emissions readiness monitors, so the UI must confirm first.
+   */
+  async clearDTCs(): Promise<void> {
+    if (!this.data.isConnected) {
+      throw new Error('Not connected to an OBD adapter.');
+    }
+    if (this.data.speed > 0) {
+      throw new Error('Stop the vehicle before clearing trouble codes.');
+    }
+
+    const response = await this.sendCommand('04', DTC_COMMAND_TIMEOUT);
+    if (!this.splitResponse(response).some(message => message.startsWith('44'))) {
+      throw new OBDCommandError('04', 'not_ok', response);
+    }
+    this.data.distanceWithMIL = 0;
+    this.data.milOn = false;
+    this.data.dtcCount = 0;
+    this.notifyListeners();
+  }
+
+  // === EMISSIONS READINESS ===
+
+  async readReadiness(): Promise<ReadinessStatus> {
+    const sinceClear = await this.readReadinessPid(OBD_PIDS.MONITOR_STATUS);
+    const thisDriveCycle = this.isPidSupported(OBD_PIDS.MONITOR_STATUS_THIS_DRIVE)
+      ? await this.readReadinessPid(OBD_PIDS.MONITOR_STATUS_THIS_DRIVE)
+      : null;
+    return { sinceClear, thisDriveCycle };
+  }
+
+  private async readReadinessPid(pid: string): Promise<ReadinessReport | null> {
+    try {
+      const response = await this.sendCommand(pid);
+      const prefix = `41${pid.substring(2)}`;
+      // With several ECUs answering, take the one chosen for the MIL/DTC channel,
+      // else the engine ECU - it runs the emissions monitors
+      const messages = splitECUMessages(response, this.headerFormat).filter(m => m.data.startsWith(prefix));
+      const preferred = this.channelSources.dtcCount;
+      const message = messages.find(m => m.ecu === preferred) ??
+        messages.find(m => isEngineECU(m.ecu)) ??
+        messages[0];
+      if (!message) return null;
+
+      if (pid === OBD_PIDS.MONITOR_STATUS) {
+        this.parseOBDResponse(response);
+      }
+      return decodeReadiness(message.data.substring(prefix.length));
+    } catch (error) {
+      console.warn(`Readiness request ${pid} failed:`, error);
+      return null;
+    }
+  }
+
+  // === ON-BOARD MONITORING TESTS (MODE 06) ===
+
+  // Current protocol number from ATDPN ('A' prefix means it was auto-detected)
+  private async getProtocolNumber(): Promise<string> {
+    const response = await this.sendCommand('ATDPN');
+    return response.trim().toUpperCase().replace(/^A/, '');
+  }
+
+  /**
+   * Read Mode 06 test results for every supported monitor.
+   * Only the CAN record format is decoded - legacy protocols use
+   * manufacturer-defined test IDs without unit information.
+   */
+  async readMonitorTests(): Promise<MonitorTestResult[]> {
+    const protocol = await this.getProtocolNumber();
+    if (!CAN_PROTOCOLS.includes(protocol)) {
+      throw new Error('Mode 06 test results are only supported on CAN (ISO 15765) vehicles.');
+    }
+
+    const supportedMids: string[] = [];
+    for (const range of SUPPORTED_MID_RANGES) {
+      if (range !== '00' && !supportedMids.includes(range)) break;
+      try {
+        const response = await this.sendCommand(`06${range}`, DTC_COMMAND_TIMEOUT);
+        supportedMids.push(...parseSupportedMids(this.splitResponse(response), range));
+      } catch (error) {
+        console.warn(`Supported MID query 06${range} failed:`, error);
+        break;
+      }
+    }
+
+    const results: MonitorTestResult[] = [];
+    for (const mid of supportedMids) {
+      // Range MIDs only carry the support bitmap
+      if (SUPPORTED_MID_RANGES.includes(mid)) continue;
+      try {
+        const response = await this.sendCommand(`06${mid}`, DTC_COMMAND_TIMEOUT);
+        results.push(...parseMonitorTests(this.splitResponse(response), mid));
+      } catch (error) {
+        console.warn(`Mode 06 request 06${mid} failed:`, error);
+      }
+    }
+    return results;
+  }
+
+  // === FREEZE FRAMES (MODE 02) ===
+
+  /**
+   * Read the freeze frame snapshots for the stored DTCs.
+   * Frames are read in order until one reports no triggering code,
+   * up to one frame per stored code.
+   */
+  async readFreezeFrames(storedCodeCount: number = 1): Promise<FreezeFrame[]> {
+    const frames: FreezeFrame[] = [];
+
+    for (let frame = 0; frame < Math.max(1, storedCodeCount); frame++) {
+      const frameHex = frame.toString(16).toUpperCase().padStart(2, '0');
+
+      const dtcBytes = await this.readMode02(FREEZE_FRAME_DTC_PID, frameHex);
+      const dtc = dtcBytes ? decodeDTC(dtcBytes.substring(0, 4)) : null;
+      if (!dtc) break;
+
+      const data: Partial<OBDData> = {};
+      for (const pid of FREEZE_FRAME_PIDS) {
+        if (!this.isPidSupported(pid)) continue;
+        const pidHex = pid.substring(2);
+        const dataBytes = await this.readMode02(pidHex, frameHex);
+        if (dataBytes) {
+          this.decodePid(pidHex, dataBytes, data);
+        }
+      }
+
+      frames.push({ frame, dtc, data });
+    }
+
+    return frames;
+  }
+
+  // Return the data bytes of a Mode 02 reply (after "42 <pid> <frame>"), or '' if unavailable
+  private async readMode02(pid: string, frame: string): Promise<string> {
+    try {
+      const response = await this.sendCommand(`02${pid}${frame}`);
+      const prefix = `42${pid}${frame}`;
+      const message = this.splitResponse(response).find(m => m.startsWith(prefix));
+      return message ? message.substring(prefix.length) : '';
+    } catch {
+      return '';
+    }
+  }
+
+  // === POLLING ===
+
+  /**
+   * Declare which channels a view shows. Polling covers the union of all
+   * registered interests; call the returned function when the view goes away.
+   */
+  registerInterest(channels: Array<keyof OBDData | CustomPIDId>): () => void {
+    const id = this.nextInterestId++;
+    this.interests.set(id, channels);
+    this.scheduler?.setRates(this.getPollingRates());
+
+    return () => {
+      this.interests.delete(id);
+      this.scheduler?.setRates(this.getPollingRates());
+    };
+  }
+
+  // Full target rate for channels on screen, a trickle for background ones
+  private getPollingRates(): Record<string, number> {
+    const wanted = new Set<string>();
+    this.interests.forEach(channels => channels.forEach(channel => {
+      const pid = this.customPids.has(channel as CustomPIDId) ? channel : OBD_CHANNEL_PIDS[channel as keyof OBDData];
+      if (pid) wanted.add(pid);
+    }));
+    const background = BACKGROUND_CHANNELS.map(channel => OBD_CHANNEL_PIDS[channel]);
+
+    // An estimated fuel rate needs its inputs polled instead of 015E
+    const fuelInputs = FUEL_ESTIMATE_INPUTS[this.data.fuelRateSource]
+      .map(channel => OBD_CHANNEL_PIDS[channel])
+      .filter((pid): pid is string => pid !== undefined);
+    if (wanted.has(OBD_CHANNEL_PIDS.fuelRate!)) {
+      fuelInputs.forEach(pid => wanted.add(pid));
+    }
+    background.push(...fuelInputs);
+
+    const rates: Record<string, number> = {};
+    PID_REGISTRY.forEach(({ mode, pid: pidByte, rate }) => {
+      const pid = `${mode}${pidByte}`;
+      if (rate === undefined || !this.isPidSupported(pid) || this.health.channels[pid]?.unsupported) return;
+      if (wanted.has(pid)) {
+        rates[pid] = rate;
+      } else if (background.includes(pid)) {
+        rates[pid] = Math.min(rate, BACKGROUND_RATE);
+      }
+    });
+    // Custom PIDs are not in the Mode 01 bitmaps - poll them and let NO DATA tell
+    this.customPids.forEach((_, id) => {
+      if (this.health.channels[id]?.unsupported) return;
+      rates[id] = wanted.has(id) ? CUSTOM_PID_RATE : BACKGROUND_RATE;
+    });
+    return rates;
+  }
+
+  // === CUSTOM PIDS ===
+
+  getCustomPids(): CustomPID[] {
+    return Array.from(this.customPids.values());
+  }
+
+  /**
+   * Replace the user-defined PIDs. Values of removed ones are dropped;
+   * a running poll loop picks up the change on its next request.
+   */
+  setCustomPids(pids: CustomPID[]): void {
+    this.customPids = new Map(pids.map(pid => [pid.id, pid]));
+    this.data.customValues = Object.fromEntries(
+      Object.entries(this.data.customValues).filter(([id]) => this.customPids.has(id as CustomPIDId))
+    );
+    this.scheduler?.setRates(this.getPollingRates());
+    if (this.data.isConnected && !this.isPolling && pids.length > 0) {
+      this.startPolling();
+    }
+    this.notifyListeners();
+  }
+
+  // Custom PIDs reading the same ECU block go out as one request
+  private customGroup(pid: CustomPID): string {
+    return `${pid.header}:${pid.request}`;
+  }
+
+  /**
+   * Send one request for custom PIDs sharing header and mode/PID, and store
+   * every value the reply decodes to. Returns the ids that got a value.
+   */
+  private async pollCustomPids(pids: CustomPID[]): Promise<string[]> {
+    const { header, request } = pids[0];
+    const payloads = this.splitResponse(
+      await this.sendWithHeader(header, request, this.pollingStrategy.commandTimeout)
+    );
+
+    const values: Record<string, number> = {};
+    pids.forEach(pid => {
+      const value = payloads
+        .map(payload => decodeCustomPID(pid, payload))
+        .find((decoded): decoded is number => decoded !== null);
+      if (value !== undefined) values[pid.id] = value;
+    });
+
+    if (Object.keys(values).length > 0) {
+      this.data.customValues = { ...this.data.customValues, ...values };
+      this.stampChannels(Object.keys(values));
+      this.notifyListeners();
+    }
+    return Object.keys(values);
+  }
+
+  /**
+   * Send one request to a specific ECU (ATSH, plus ATCP for the priority
+   * byte of a 29 bit header), then put back the header that was active so
+   * Mode 01 polling keeps reaching every ECU. Switch, request and restore
+   * run as one sequence - no other command can go out under the wrong header.
+   */
+  private async sendWithHeader(header: string, request: string, timeout?: number): Promise<string> {
+    const previous = this.requestHeader || DEFAULT_HEADERS[this.data.protocol] || '';
+    if (!header || header === previous) {
+      return this.sendCommand(request, timeout);
+    }
+    // Without a header to go back to, every later request would stay on this ECU
+    if (!previous) {
+      throw new OBDCommandError(request, 'not_ok', `no default header known for protocol ${this.data.protocol || '?'}`);
+    }
+
+    return this.sendSequence(`${header}:${request}`, async send => {
+      await this.setRequestHeader(header, send);
+      try {
+        return await send(request, timeout);
+      } finally {
+        await this.setRequestHeader(previous, send).catch(error => console.warn('Header restore failed:', error));
+      }
+    });
+  }
+
+  private async setRequestHeader(header: string, send: CommandSender): Promise<void> {
+    const commands = header.length === 8
+      ? [`ATCP${header.substring(0, 2)}`, `ATSH${header.substring(2)}`]
+      : [`ATSH${header}`];
+    for (const command of commands) {
+      const response = await send(command);
+      if (!response.toUpperCase().includes('OK')) {
+        throw new OBDCommandError(command, 'not_ok', response);
+      }
+    }
+    this.requestHeader = header;
+  }
+
+  /**
+   * Hold live data polling, e.g. so terminal commands get the adapter to
+   * themselves. Commands already queued still complete.
+   */
+  pausePolling(): void {
+    if (this.data.pollingPaused) return;
+    this.data.pollingPaused = true;
+    this.stopPolling();
+    this.notifyListeners();
+  }
+
+  resumePolling(): void {
+    if (!this.data.pollingPaused) return;
+    this.data.pollingPaused = false;
+    if (this.data.connectionState === 'connected' && !this.isPolling) {
+      this.startPolling();
+    }
+    this.notifyListeners();
+  }
+
+  private startPolling(): void {
+    if (this.data.pollingPaused) return;
+    if (this.customPids.size === 0 &&
+        !PID_REGISTRY.some(({ mode, pid, rate }) => rate !== undefined && this.isPidSupported(`${mode}${pid}`))) {
+      console.warn('ECU reports none of the polled PIDs - polling disabled');
+      return;
+    }
+    
+    // Mode 01 PIDs batch together; custom PIDs only with others from the same ECU block
+    const scheduler = new PollScheduler(this.getPollingRates(), Date.now(), pid => {
+      const customPid = this.customPids.get(pid as CustomPIDId);
+      return customPid ? this.customGroup(customPid) : MODE_01_GROUP;
+    });
+    this.scheduler = scheduler;
+    let stalledPolls = 0;
+    let multiPidRefusals = 0;
+
+    // Only CAN ECUs are required to accept several PIDs in one request
+    this.data.multiPid = CAN_PROTOCOLS.includes(this.data.protocol);
+    
+    // Each poll waits for its reply before scheduling the next one,
+    // so requests never pile up faster than the adapter can answer
+    const pollNext = async () => {
+      // A restarted loop (pause/resume, reinit) replaces the scheduler - retire this one
+      if (!this.isPolling || this.scheduler !== scheduler) return;
+
+      const batch = scheduler.next(group =>
+        group !== MODE_01_GROUP ? Infinity : this.data.multiPid ? MAX_PIDS_PER_REQUEST : 1
+      );
+      if (batch.pids.length === 0) {
+        this.pollingTimer = setTimeout(pollNext, batch.waitMs);
+        return;
+      }
+
+      // '010C' + '010D' -> '010C0D'
+      const request = `01${batch.pids.map(pid => pid.substring(2)).join('')}`;
+      const customPids = batch.pids
+        .map(pid => this.customPids.get(pid as CustomPIDId))
+        .filter((pid): pid is CustomPID => pid !== undefined);
+      const sentAt = Date.now();
+
+      try {
+        let received: string[];
+        if (customPids.length > 0) {
+          received = await this.pollCustomPids(customPids);
+        } else {
+          const response = await this.sendCommand(request, this.pollingStrategy.commandTimeout);
+          received = this.parseOBDResponse(response);
+        }
+        scheduler.record(batch.pids, received, sentAt);
+        this.recordPollResult(batch.pids, received, null);
+        stalledPolls = 0;
+
+        // Some ECUs only answer the first PID of a batch
+        if (batch.pids.length > 1 && customPids.length === 0) {
+          multiPidRefusals = received.length <= 1 ? multiPidRefusals + 1 : 0;
+        }
+      } catch (error) {
+        scheduler.record(batch.pids, [], sentAt);
+        if (batch.pids.length > 1 && customPids.length === 0 && error instanceof OBDCommandError &&
+            (error.reason === 'no_data' || error.reason === 'unknown_command')) {
+          multiPidRefusals++;
+        }
+        if (error instanceof OBDCommandError && error.reason === 'disconnected') {
+          this.stopPolling();
+          this.handleLinkLost('write failed');
+          return;
+        }
+        if (error instanceof OBDCommandError) {
+          this.recordPollResult(batch.pids, [], error);
+        }
+        if (this.health.busErrors >= BUS_ERROR_REINIT_LIMIT) {
+          this.reinitializeBus();
+          return;
+        }
+        // A BLE link can die silently - only the missing replies give it away
+        if (error instanceof OBDCommandError && error.reason === 'timeout') {
+          stalledPolls++;
+          if (stalledPolls >= STALL_TIMEOUT_LIMIT) {
+            this.handleLinkLost(`${stalledPolls} polls without reply`);
+            return;
+          }
+        } else {
+          stalledPolls = 0;
+        }
+        // NO DATA / single timeouts on a PID should not stop polling
+      }
+
+      if (this.data.multiPid && multiPidRefusals >= MULTI_PID_REFUSAL_LIMIT) {
+        console.warn('ECU refuses multi-PID requests - polling one PID at a time');
+        this.data.multiPid = false;
+        this.notifyListeners();
+      }
+
+      this.data.sampleRate = Math.round(scheduler.getStats().sampleRate * 10) / 10;
+
+      if (this.isPolling) {
+        this.pollingTimer = setTimeout(pollNext, this.pollingStrategy.pollDelay);
+      }
+    };
+
+    this.isPolling = true;
+    pollNext();
+  }
+
+  // === FUEL ESTIMATE ===
+
+  /**
+   * Set how fuel flow is estimated when the ECU does not report PID 015E.
+   * Takes effect on the next sample; the source is re-chosen right away.
+   */
+  setFuelModel(model: FuelModel): void {
+    this.fuelModel = { ...model };
+    this.updateFuelRateSource();
+    this.scheduler?.setRates(this.getPollingRates());
+    this.notifyListeners();
+  }
+
+  /**
+   * Hand over the fuel the estimate counted since the last call (uncalibrated
+   * liters), for the fill-up log that calibrates it.
+   */
+  takeEstimatedFuel(): number {
+    const liters = this.data.estimatedFuelUsed;
+    this.data.estimatedFuelUsed = 0;
+    return liters;
+  }
+
+  // PID 015E whenever the ECU has it, otherwise the estimate its PIDs allow
+  private updateFuelRateSource(): void {
+    const isAvailable = (channel: keyof OBDData) =>
+      this.isChannelSupported(channel) && !this.health.channels[OBD_CHANNEL_PIDS[channel] ?? '']?.unsupported;
+    this.data.fuelRateSource = isAvailable('fuelRate') ? 'pid' : chooseFuelEstimate(this.fuelModel, isAvailable);
+  }
+
+  // Recompute the estimated fuel rate when one of its inputs got a new value
+  private updateFuelEstimate(received: string[]): void {
+    const inputs = FUEL_ESTIMATE_INPUTS[this.data.fuelRateSource].map(channel => OBD_CHANNEL_PIDS[channel]);
+    if (!inputs.some(pid => pid && received.includes(pid))) return;
+
+    const now = Date.now();
+    const rate = estimateFuelRate(this.fuelModel, this.data.fuelRateSource, this.data);
+    if (this.lastFuelEstimateAt !== null && now - this.lastFuelEstimateAt <= FUEL_ESTIMATE_MAX_GAP) {
+      this.data.estimatedFuelUsed += rate * (now - this.lastFuelEstimateAt) / 3600000;
+    }
+    this.lastFuelEstimateAt = now;
+
+    this.data.fuelRate = Math.round(rate * this.fuelModel.calibration * 10) / 10;
+    this.stampChannels(['fuelRate'], now);
+  }
+
+  // === ERROR HANDLING ===
+
+  getHealth(): OBDHealth {
+    return this.health;
+  }
+
+  /**
+   * Book the outcome of one poll: error counts per channel, channels that
+   * keep answering NO DATA (dropped from polling) and the bus state.
+   * PIDs missing from a reply count as NO DATA.
+   */
+  private recordPollResult(requested: string[], received: string[], error: OBDCommandError | null): void {
+    const channels = { ...this.health.channels };
+    const dropped: string[] = [];
+
+    requested.forEach(pid => {
+      const channel = channels[pid] ?? { errors: {}, consecutiveNoData: 0, unsupported: false };
+      if (received.includes(pid)) {
+        channels[pid] = { ...channel, consecutiveNoData: 0 };
+        return;
+      }
+      const reason = error?.reason ?? 'no_data';
+      const consecutiveNoData = reason === 'no_data' ? channel.consecutiveNoData + 1 : channel.consecutiveNoData;
+      const unsupported = channel.unsupported || consecutiveNoData >= NO_DATA_UNSUPPORTED_LIMIT;
+      if (unsupported && !channel.unsupported) dropped.push(pid);
+      channels[pid] = {
+        errors: { ...channel.errors, [reason]: (channel.errors[reason] ?? 0) + 1 },
+        consecutiveNoData,
+        unsupported,
+      };
+    });
+
+    const busError = error !== null && BUS_ERROR_REASONS.includes(error.reason);
+    const status: OBDHealthStatus = busError ? 'bus_error'
+      : error || received.length < requested.length ? 'degraded'
+      : 'ok';
+    const changed = status !== this.health.status || dropped.length > 0 || error !== null;
+
+    this.health = {
+      ...this.health,
+      status,
+      channels,
+      busErrors: busError ? this.health.busErrors + 1 : 0,
+      lastError: error
+        ? { command: error.command, reason: error.reason, response: error.response, at: Date.now() }
+        : this.health.lastError,
+    };
+
+    if (dropped.length > 0) {
+      console.warn(`No data for ${dropped.join(', ')} after ${NO_DATA_UNSUPPORTED_LIMIT} requests - no longer polled`);
+      this.updateFuelRateSource();
+      this.scheduler?.setRates(this.getPollingRates());
+    }
+    if (changed) {
+      this.notifyListeners();
+    }
+  }
+
+  /**
+   * The adapter lost the bus (CAN ERROR, BUS INIT error...). Run the
+   * initialization again, reopen the protocol and resume polling - if the
+   * bus is still down the errors pile up and trigger another attempt.
+   */
+  private async reinitializeBus(): Promise<void> {
+    console.warn(`${this.health.busErrors} bus errors in a row - reinitializing the adapter`);
+    this.stopPolling();
+    this.health = {
+      ...this.health,
+      status: 'reinitializing',
+      busErrors: 0,
+      reinitializations: this.health.reinitializations + 1,
+    };
+    this.notifyListeners();
+
+    try {
+      await this.initializeAdapter();
+      await this.discoverSupportedPids();
+      this.health = { ...this.health, status: 'ok' };
+    } catch (error) {
+      // A dropped link is handled by the reconnect logic
+      if (error instanceof OBDCommandError && error.reason === 'disconnected') return;
+      console.warn('Adapter reinitialization failed:', error);
+      this.health = { ...this.health, status: 'bus_error' };
+    }
+
+    if (this.data.connectionState === 'connected') {
+      this.startPolling();
+    }
+    this.notifyListeners();
+  }
+
+  // Target vs achieved rate and latency per polled PID, null when not polling
+  getPollingStats(): PollingStats | null {
+    return this.scheduler?.getStats() ?? null;
+  }
+
+  private stopPolling(): void {
+    this.isPolling = false;
+    if (this.pollingTimer) {
+      clearTimeout(this.pollingTimer);
+      this.pollingTimer = null;
+    }
+  }
+
+  async disconnect(): Promise<void> {
+    // Stop reconnecting first so the teardown below is not taken for a drop
+    this.cancelReconnect();
+    this.lastTarget = null;
+    this.pendingTransport = null;
+    this.data.connectionState = 'disconnected';
+
+    await this.detachTransport();
+    this.notifyListeners();
+  }
+
+  // Close the current link; its late data and close events are ignored from here on
+  private async detachTransport(): Promise<void> {
+    const transport = this.transport;
+    if (!transport) return;
+
+    this.stopPolling();
+    this.rejectAllCommands('disconnected');
+    this.transport = null;
+    this.resetSession();
+    await transport.close().catch(error => console.warn('Failed to close adapter link:', error));
+  }
+
+  // Forget everything learned about the adapter and vehicle on this link
+  private resetSession(): void {
+    this.supportedPids = null;
+    this.vehicleInfo = null;
+    this.adapterProfile = null;
+    this.pollingStrategy = POLLING_STRATEGIES.elm327;
+    this.headerFormat = 'none';
+    this.requestHeader = '';
+    this.ecuData.clear();
+    this.scheduler = null;
+    this.health = { ...INITIAL_HEALTH };
+    this.lastFuelEstimateAt = null;
+    // Fuel counted but not yet taken is kept for the next fill-up; a pause
+    // asked for by the terminal outlives the link
+    this.data = {
+      ...INITIAL_OBD_DATA,
+      estimatedFuelUsed: this.data.estimatedFuelUsed,
+      pollingPaused: this.data.pollingPaused,
+    };
   }
 
   subscribe(listener: (data: OBDData) => void): () => void {
@@ -0,0 +1,34 @@
+import type { SimulatorOptions } from './ELM327Emulator';
+
+// Link between OBDService and an ELM327 adapter.
+// Transports only move text - command queueing and reply parsing stay in OBDService.
+
+export type TransportType = 'ble' | 'spp' | 'tcp' | 'sim';
+
+export interface OBDTransport {
+  readonly type: TransportType;
+  readonly name: string;     // Shown as the connected device name
+  open(): Promise<void>;
+  write(data: string): Promise<void>;
+  onData(listener: (chunk: string) => void): void;
+  onClose(listener: () => void): void;   // Link dropped without close() being called
+  close(): Promise<void>;
+}
+
+// Everything needed to open the same link again (persisted for auto-connect)
+export type ConnectionTarget =
+  | { type: 'ble'; id: string; name: string }
+  | { type: 'spp'; id: string; name: string }
+  | { type: 'tcp'; host: string; port: number }
+  | { type: 'sim'; options: SimulatorOptions };
+
+export const TRANSPORT_LABELS: Record<TransportType, string> = {
+  ble: 'Bluetooth LE',
+  spp: 'Bluetooth Classic',
+  tcp: 'Wi-Fi',
+  sim: 'Simulated vehicle',
+};
+
+// Factory default address of Wi-Fi ELM327 clones
+export const DEFAULT_WIFI_HOST = '192.168.0.10';
+export const DEFAULT_WIFI_PORT = 35000;
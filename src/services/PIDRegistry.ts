@@ -0,0 +1,264 @@
+// Mode 01 PID registry (SAE J1979 / ISO 15031-5)
+// One entry per PID: how many data bytes it returns, how to turn them into a
+// value, its unit and display range, and the OBDData field it feeds. The
+// parser, the poll scheduler and the gauges all read from this table.
+// Bitmap PIDs (00, 20, 40, ...) are handled by PID discovery and not listed.
+
+import { decodeReadiness } from './ReadinessMonitors';
+import type { OBDData } from './OBDService';
+
+export interface PIDDefinition {
+  mode: string;              // Request mode, '01' for live data
+  pid: string;               // Two hex digits, e.g. '0C'
+  name: string;
+  bytes: number;             // Data bytes in the reply
+  decode: (bytes: number[]) => number;  // A, B, C... -> value; multi-value PIDs return the main one
+  unit: string;
+  min: number;               // Display range
+  max: number;
+  digits?: number;           // Decimals kept after decoding (default 0)
+  key?: keyof OBDData;       // Live data field this PID feeds
+  rate?: number;             // Target poll rate (Hz) while a screen shows the field
+  assign?: (bytes: number[], target: Partial<OBDData>) => void;  // Fields beyond `key`
+  assigns?: Array<keyof OBDData>;      // Live data fields `assign` fills, polled along with `key`
+}
+
+// Formula building blocks, named after the J1979 scaling they implement
+const word = (high: number, low: number) => high * 256 + low;
+const signedWord = (high: number, low: number) => {
+  const value = word(high, low);
+  return value > 0x7fff ? value - 0x10000 : value;
+};
+const dword = (a: number, b: number, c: number, d: number) => ((a * 256 + b) * 256 + c) * 256 + d;
+const percent = (a: number) => a * 100 / 255;
+const temperature = (a: number) => a - 40;
+const fuelTrim = (a: number) => a / 1.28 - 100;
+const torque = (a: number) => a - 125;
+const wideTemperature = (high: number, low: number) => word(high, low) / 10 - 40;
+const boost = (high: number, low: number) => Math.round(word(high, low) * 0.03125 * 10) / 10;
+
+const RAW = { unit: '', min: 0, max: 255 };
+const PERCENT = { unit: '%', min: 0, max: 100 };
+const TRIM = { unit: '%', min: -100, max: 99.2, digits: 1 };
+const TEMPERATURE = { unit: '°C', min: -40, max: 215 };
+const WIDE_TEMPERATURE = { unit: '°C', min: -40, max: 1000, digits: 1 };
+
+const o2Sensor = (pid: string, sensor: number): PIDDefinition => ({
+  mode: '01', pid, name: `O2 sensor ${sensor} voltage`, bytes: 2,
+  decode: ([A]) => A / 200, unit: 'V', min: 0, max: 1.275, digits: 3,
+});
+
+const o2WideVoltage = (pid: string, sensor: number): PIDDefinition => ({
+  mode: '01', pid, name: `O2 sensor ${sensor} lambda`, bytes: 4,
+  decode: ([A, B]) => word(A, B) * 2 / 65536, unit: 'λ', min: 0, max: 2, digits: 3,
+});
+
+const o2WideCurrent = (pid: string, sensor: number): PIDDefinition => ({
+  mode: '01', pid, name: `O2 sensor ${sensor} current`, bytes: 4,
+  decode: ([, , C, D]) => word(C, D) / 256 - 128, unit: 'mA', min: -128, max: 128, digits: 2,
+});
+
+const catalystTemperature = (pid: string, location: string): PIDDefinition => ({
+  mode: '01', pid, name: `Catalyst temp ${location}`, bytes: 2,
+  decode: ([A, B]) => wideTemperature(A, B), ...WIDE_TEMPERATURE,
+});
+
+export const PID_REGISTRY: PIDDefinition[] = [
+  {
+    mode: '01', pid: '01', name: 'Monitor status since DTCs cleared', bytes: 4,
+    decode: ([A]) => A & 0x7f, unit: 'DTCs', min: 0, max: 127,
+    assign: (bytes, target) => {
+      const report = decodeReadiness(bytes.map(b => b.toString(16).padStart(2, '0')).join(''));
+      if (report) {
+        target.milOn = report.milOn;
+        target.dtcCount = report.dtcCount;
+      }
+    },
+  },
+  { mode: '01', pid: '03', name: 'Fuel system status', bytes: 2, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '04', name: 'Engine load', bytes: 1, decode: ([A]) => percent(A), ...PERCENT, key: 'engineLoad', rate: 2 },
+  { mode: '01', pid: '05', name: 'Coolant temp', bytes: 1, decode: ([A]) => temperature(A), ...TEMPERATURE, min: 0, max: 130, key: 'coolantTemp', rate: 0.2 },
+  { mode: '01', pid: '06', name: 'Short term fuel trim B1', bytes: 1, decode: ([A]) => fuelTrim(A), ...TRIM },
+  { mode: '01', pid: '07', name: 'Long term fuel trim B1', bytes: 1, decode: ([A]) => fuelTrim(A), ...TRIM },
+  { mode: '01', pid: '08', name: 'Short term fuel trim B2', bytes: 1, decode: ([A]) => fuelTrim(A), ...TRIM },
+  { mode: '01', pid: '09', name: 'Long term fuel trim B2', bytes: 1, decode: ([A]) => fuelTrim(A), ...TRIM },
+  { mode: '01', pid: '0A', name: 'Fuel pressure', bytes: 1, decode: ([A]) => A * 3, unit: 'kPa', min: 0, max: 765, key: 'fuelPressure', rate: 1 },
+  { mode: '01', pid: '0B', name: 'Intake manifold pressure', bytes: 1, decode: ([A]) => A, unit: 'kPa', min: 0, max: 250, key: 'boostPressure', rate: 10 },
+  { mode: '01', pid: '0C', name: 'Engine RPM', bytes: 2, decode: ([A, B]) => word(A, B) / 4, unit: 'rpm', min: 0, max: 5000, key: 'rpm', rate: 10 },
+  { mode: '01', pid: '0D', name: 'Vehicle speed', bytes: 1, decode: ([A]) => A, unit: 'km/h', min: 0, max: 200, key: 'speed', rate: 5 },
+  { mode: '01', pid: '0E', name: 'Timing advance', bytes: 1, decode: ([A]) => A / 2 - 64, unit: '°', min: -64, max: 63.5, digits: 1 },
+  { mode: '01', pid: '0F', name: 'Intake air temp', bytes: 1, decode: ([A]) => temperature(A), ...TEMPERATURE, min: -20, max: 80, key: 'intakeAirTemp', rate: 0.5 },
+  { mode: '01', pid: '10', name: 'MAF air flow', bytes: 2, decode: ([A, B]) => word(A, B) / 100, unit: 'g/s', min: 0, max: 655.35, digits: 1, key: 'mafRate', rate: 2 },
+  { mode: '01', pid: '11', name: 'Throttle position', bytes: 1, decode: ([A]) => percent(A), ...PERCENT, key: 'throttlePosition', rate: 5 },
+  { mode: '01', pid: '12', name: 'Commanded secondary air status', bytes: 1, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '13', name: 'O2 sensors present (2 banks)', bytes: 1, decode: ([A]) => A, ...RAW },
+  o2Sensor('14', 1), o2Sensor('15', 2), o2Sensor('16', 3), o2Sensor('17', 4),
+  o2Sensor('18', 5), o2Sensor('19', 6), o2Sensor('1A', 7), o2Sensor('1B', 8),
+  { mode: '01', pid: '1C', name: 'OBD standard', bytes: 1, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '1D', name: 'O2 sensors present (4 banks)', bytes: 1, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '1E', name: 'Auxiliary input status', bytes: 1, decode: ([A]) => A & 0x01, unit: '', min: 0, max: 1 },
+  { mode: '01', pid: '1F', name: 'Run time since start', bytes: 2, decode: ([A, B]) => word(A, B), unit: 's', min: 0, max: 65535, key: 'runTime', rate: 0.2 },
+  { mode: '01', pid: '21', name: 'Distance with MIL on', bytes: 2, decode: ([A, B]) => word(A, B), unit: 'km', min: 0, max: 65535, key: 'distanceWithMIL' },
+  { mode: '01', pid: '22', name: 'Fuel rail pressure (vacuum)', bytes: 2, decode: ([A, B]) => word(A, B) * 0.079, unit: 'kPa', min: 0, max: 5177.3, digits: 1 },
+  { mode: '01', pid: '23', name: 'Fuel rail gauge pressure', bytes: 2, decode: ([A, B]) => word(A, B) * 10, unit: 'kPa', min: 0, max: 200000, key: 'fuelRailPressure', rate: 2 },
+  o2WideVoltage('24', 1), o2WideVoltage('25', 2), o2WideVoltage('26', 3), o2WideVoltage('27', 4),
+  o2WideVoltage('28', 5), o2WideVoltage('29', 6), o2WideVoltage('2A', 7), o2WideVoltage('2B', 8),
+  { mode: '01', pid: '2C', name: 'Commanded EGR', bytes: 1, decode: ([A]) => percent(A), ...PERCENT, key: 'egrCommanded', rate: 1 },
+  { mode: '01', pid: '2D', name: 'EGR error', bytes: 1, decode: ([A]) => fuelTrim(A), ...TRIM, digits: 0, key: 'egrError', rate: 1 },
+  { mode: '01', pid: '2E', name: 'Commanded evaporative purge', bytes: 1, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: '2F', name: 'Fuel tank level', bytes: 1, decode: ([A]) => percent(A), ...PERCENT, key: 'fuelLevel', rate: 0.05 },
+  { mode: '01', pid: '30', name: 'Warm-ups since codes cleared', bytes: 1, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '31', name: 'Distance since codes cleared', bytes: 2, decode: ([A, B]) => word(A, B), unit: 'km', min: 0, max: 65535 },
+  { mode: '01', pid: '32', name: 'Evap system vapour pressure', bytes: 2, decode: ([A, B]) => signedWord(A, B) / 4, unit: 'Pa', min: -8192, max: 8192, digits: 2 },
+  { mode: '01', pid: '33', name: 'Barometric pressure', bytes: 1, decode: ([A]) => A, unit: 'kPa', min: 0, max: 255, key: 'barometricPressure', rate: 0.1 },
+  o2WideCurrent('34', 1), o2WideCurrent('35', 2), o2WideCurrent('36', 3), o2WideCurrent('37', 4),
+  o2WideCurrent('38', 5), o2WideCurrent('39', 6), o2WideCurrent('3A', 7), o2WideCurrent('3B', 8),
+  catalystTemperature('3C', 'B1S1'), catalystTemperature('3D', 'B2S1'),
+  catalystTemperature('3E', 'B1S2'), catalystTemperature('3F', 'B2S2'),
+  { mode: '01', pid: '41', name: 'Monitor status this drive cycle', bytes: 4, decode: ([, B]) => B, ...RAW },
+  { mode: '01', pid: '42', name: 'Control module voltage', bytes: 2, decode: ([A, B]) => word(A, B) / 1000, unit: 'V', min: 0, max: 16, digits: 1, key: 'batteryVoltage', rate: 0.5 },
+  { mode: '01', pid: '43', name: 'Absolute load', bytes: 2, decode: ([A, B]) => percent(word(A, B)), unit: '%', min: 0, max: 25700 },
+  { mode: '01', pid: '44', name: 'Commanded air-fuel equivalence ratio', bytes: 2, decode: ([A, B]) => word(A, B) * 2 / 65536, unit: 'λ', min: 0, max: 2, digits: 3 },
+  { mode: '01', pid: '45', name: 'Relative throttle position', bytes: 1, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: '46', name: 'Ambient air temp', bytes: 1, decode: ([A]) => temperature(A), ...TEMPERATURE, min: -20, max: 50, key: 'ambientTemp', rate: 0.1 },
+  { mode: '01', pid: '47', name: 'Absolute throttle position B', bytes: 1, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: '48', name: 'Absolute throttle position C', bytes: 1, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: '49', name: 'Accelerator pedal position D', bytes: 1, decode: ([A]) => percent(A), ...PERCENT, key: 'acceleratorPosition', rate: 5 },
+  { mode: '01', pid: '4A', name: 'Accelerator pedal position E', bytes: 1, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: '4B', name: 'Accelerator pedal position F', bytes: 1, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: '4C', name: 'Commanded throttle actuator', bytes: 1, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: '4D', name: 'Time run with MIL on', bytes: 2, decode: ([A, B]) => word(A, B), unit: 'min', min: 0, max: 65535 },
+  { mode: '01', pid: '4E', name: 'Time since codes cleared', bytes: 2, decode: ([A, B]) => word(A, B), unit: 'min', min: 0, max: 65535 },
+  { mode: '01', pid: '4F', name: 'Maximum equivalence ratio', bytes: 4, decode: ([A]) => A, unit: 'λ', min: 0, max: 255 },
+  { mode: '01', pid: '50', name: 'Maximum MAF air flow', bytes: 4, decode: ([A]) => A * 10, unit: 'g/s', min: 0, max: 2550 },
+  { mode: '01', pid: '51', name: 'Fuel type', bytes: 1, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '52', name: 'Ethanol fuel', bytes: 1, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: '53', name: 'Absolute evap vapour pressure', bytes: 2, decode: ([A, B]) => word(A, B) / 200, unit: 'kPa', min: 0, max: 327.675, digits: 3 },
+  { mode: '01', pid: '54', name: 'Evap system vapour pressure', bytes: 2, decode: ([A, B]) => signedWord(A, B), unit: 'Pa', min: -32768, max: 32767 },
+  { mode: '01', pid: '55', name: 'Short term secondary O2 trim B1/B3', bytes: 2, decode: ([A]) => fuelTrim(A), ...TRIM },
+  { mode: '01', pid: '56', name: 'Long term secondary O2 trim B1/B3', bytes: 2, decode: ([A]) => fuelTrim(A), ...TRIM },
+  { mode: '01', pid: '57', name: 'Short term secondary O2 trim B2/B4', bytes: 2, decode: ([A]) => fuelTrim(A), ...TRIM },
+  { mode: '01', pid: '58', name: 'Long term secondary O2 trim B2/B4', bytes: 2, decode: ([A]) => fuelTrim(A), ...TRIM },
+  { mode: '01', pid: '59', name: 'Fuel rail absolute pressure', bytes: 2, decode: ([A, B]) => word(A, B) * 10, unit: 'kPa', min: 0, max: 655350 },
+  { mode: '01', pid: '5A', name: 'Relative accelerator pedal position', bytes: 1, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: '5B', name: 'Hybrid battery remaining life', bytes: 1, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: '5C', name: 'Engine oil temp', bytes: 1, decode: ([A]) => temperature(A), ...TEMPERATURE, min: 0, max: 150, key: 'oilTemp', rate: 0.2 },
+  { mode: '01', pid: '5D', name: 'Fuel injection timing', bytes: 2, decode: ([A, B]) => word(A, B) / 128 - 210, unit: '°', min: -210, max: 301.992, digits: 2 },
+  { mode: '01', pid: '5E', name: 'Engine fuel rate', bytes: 2, decode: ([A, B]) => word(A, B) / 20, unit: 'L/h', min: 0, max: 3212.75, digits: 1, key: 'fuelRate', rate: 1 },
+  { mode: '01', pid: '5F', name: 'Emission requirements', bytes: 1, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '61', name: 'Driver demand torque', bytes: 1, decode: ([A]) => torque(A), unit: '%', min: -125, max: 130 },
+  { mode: '01', pid: '62', name: 'Actual engine torque', bytes: 1, decode: ([A]) => torque(A), unit: '%', min: 0, max: 100, key: 'actualTorque', rate: 2 },
+  { mode: '01', pid: '63', name: 'Engine reference torque', bytes: 2, decode: ([A, B]) => word(A, B), unit: 'Nm', min: 0, max: 65535, key: 'referenceTorque', rate: 0.05 },
+  { mode: '01', pid: '64', name: 'Engine torque at idle', bytes: 5, decode: ([A]) => torque(A), unit: '%', min: -125, max: 130 },
+  { mode: '01', pid: '65', name: 'Auxiliary input/output supported', bytes: 2, decode: ([A, B]) => word(A, B), unit: '', min: 0, max: 65535 },
+  { mode: '01', pid: '66', name: 'MAF sensor A', bytes: 5, decode: ([, B, C]) => word(B, C) / 32, unit: 'g/s', min: 0, max: 2048, digits: 2 },
+  { mode: '01', pid: '67', name: 'Coolant temp sensor 1', bytes: 3, decode: ([, B]) => temperature(B), ...TEMPERATURE },
+  { mode: '01', pid: '68', name: 'Intake air temp sensor 1', bytes: 7, decode: ([, B]) => temperature(B), ...TEMPERATURE },
+  { mode: '01', pid: '69', name: 'Commanded EGR duty cycle', bytes: 7, decode: ([, B]) => percent(B), ...PERCENT },
+  { mode: '01', pid: '6A', name: 'Commanded diesel intake air flow', bytes: 5, decode: ([, B]) => percent(B), ...PERCENT },
+  { mode: '01', pid: '6B', name: 'EGR temp', bytes: 5, decode: ([, B]) => temperature(B), ...TEMPERATURE },
+  { mode: '01', pid: '6C', name: 'Commanded throttle actuator A', bytes: 5, decode: ([, B]) => percent(B), ...PERCENT },
+  { mode: '01', pid: '6D', name: 'Commanded fuel rail pressure', bytes: 11, decode: ([, B, C]) => word(B, C) * 10, unit: 'kPa', min: 0, max: 655350 },
+  { mode: '01', pid: '6E', name: 'Commanded injection pressure', bytes: 9, decode: ([, B, C]) => word(B, C) * 10, unit: 'kPa', min: 0, max: 655350 },
+  { mode: '01', pid: '6F', name: 'Turbo compressor inlet pressure', bytes: 3, decode: ([, B]) => B, unit: 'kPa', min: 0, max: 255 },
+  {
+    mode: '01', pid: '70', name: 'Commanded boost pressure A', bytes: 10,
+    decode: ([, B, C]) => boost(B, C), unit: 'kPa', min: 0, max: 300, digits: 1, key: 'boostCommanded', rate: 5,
+    // D-E is the boost sensor reading, only valid when byte A flags it as supported
+    assign: ([A, , , D, E], target) => {
+      if (A & 0x02) target.boostActual = boost(D, E);
+    },
+    assigns: ['boostActual'],
+  },
+  { mode: '01', pid: '71', name: 'Commanded variable geometry turbo A', bytes: 6, decode: ([, B]) => percent(B), ...PERCENT },
+  { mode: '01', pid: '72', name: 'Commanded wastegate A', bytes: 5, decode: ([, B]) => percent(B), ...PERCENT },
+  { mode: '01', pid: '73', name: 'Exhaust pressure bank 1', bytes: 5, decode: ([, B, C]) => word(B, C) * 0.01, unit: 'kPa', min: 0, max: 655.35, digits: 2 },
+  { mode: '01', pid: '74', name: 'Turbocharger A RPM', bytes: 5, decode: ([, B, C]) => word(B, C) * 10, unit: 'rpm', min: 0, max: 250000, key: 'turboRpm', rate: 2 },
+  { mode: '01', pid: '75', name: 'Turbocharger A compressor inlet temp', bytes: 7, decode: ([, B]) => temperature(B), ...TEMPERATURE },
+  { mode: '01', pid: '76', name: 'Turbocharger B compressor inlet temp', bytes: 7, decode: ([, B]) => temperature(B), ...TEMPERATURE },
+  { mode: '01', pid: '77', name: 'Charge air cooler temp bank 1', bytes: 5, decode: ([, B]) => temperature(B), ...TEMPERATURE },
+  { mode: '01', pid: '78', name: 'Exhaust gas temp bank 1 sensor 1', bytes: 9, decode: ([, B, C]) => wideTemperature(B, C), ...WIDE_TEMPERATURE, key: 'egtBank1', rate: 1 },
+  { mode: '01', pid: '79', name: 'Exhaust gas temp bank 2 sensor 1', bytes: 9, decode: ([, B, C]) => wideTemperature(B, C), ...WIDE_TEMPERATURE, key: 'egtBank2', rate: 1 },
+  { mode: '01', pid: '7A', name: 'DPF bank 1 delta pressure', bytes: 7, decode: ([, B, C]) => word(B, C) * 0.01, unit: 'kPa', min: 0, max: 50, digits: 2, key: 'dpfPressureBank1', rate: 0.5 },
+  { mode: '01', pid: '7B', name: 'DPF bank 2 delta pressure', bytes: 7, decode: ([, B, C]) => word(B, C) * 0.01, unit: 'kPa', min: 0, max: 50, digits: 2, key: 'dpfPressureBank2', rate: 0.5 },
+  { mode: '01', pid: '7C', name: 'DPF bank 1 inlet temp', bytes: 9, decode: ([, B, C]) => wideTemperature(B, C), ...WIDE_TEMPERATURE, key: 'dpfInletTemp', rate: 0.5 },
+  { mode: '01', pid: '7D', name: 'NOx NTE control area status', bytes: 1, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '7E', name: 'PM NTE control area status', bytes: 1, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '7F', name: 'Engine run time', bytes: 13, decode: ([, B, C, D, E]) => dword(B, C, D, E), unit: 's', min: 0, max: 4294967295 },
+  { mode: '01', pid: '81', name: 'Run time for AECD #1', bytes: 21, decode: ([, B, C, D, E]) => dword(B, C, D, E), unit: 's', min: 0, max: 4294967295 },
+  { mode: '01', pid: '82', name: 'Run time for AECD #6', bytes: 21, decode: ([, B, C, D, E]) => dword(B, C, D, E), unit: 's', min: 0, max: 4294967295 },
+  { mode: '01', pid: '83', name: 'NOx sensor 1 concentration', bytes: 9, decode: ([, B, C]) => word(B, C), unit: 'ppm', min: 0, max: 2000, key: 'noxConcentration', rate: 0.5 },
+  { mode: '01', pid: '84', name: 'Manifold surface temp', bytes: 1, decode: ([A]) => temperature(A), ...TEMPERATURE },
+  { mode: '01', pid: '85', name: 'NOx reagent average consumption', bytes: 10, decode: ([, B, C]) => word(B, C) * 0.005, unit: 'L/h', min: 0, max: 327.675, digits: 3 },
+  { mode: '01', pid: '86', name: 'Particulate matter sensor bank 1', bytes: 5, decode: ([, B, C]) => word(B, C) / 80, unit: 'mg/m³', min: 0, max: 819.19, digits: 2 },
+  { mode: '01', pid: '87', name: 'Intake manifold absolute pressure A', bytes: 5, decode: ([, B, C]) => word(B, C) / 32, unit: 'kPa', min: 0, max: 2048, digits: 1 },
+  { mode: '01', pid: '88', name: 'SCR inducement system status', bytes: 13, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '89', name: 'Run time for AECD #11', bytes: 41, decode: ([, B, C, D, E]) => dword(B, C, D, E), unit: 's', min: 0, max: 4294967295 },
+  { mode: '01', pid: '8A', name: 'Run time for AECD #16', bytes: 41, decode: ([, B, C, D, E]) => dword(B, C, D, E), unit: 's', min: 0, max: 4294967295 },
+  { mode: '01', pid: '8B', name: 'Diesel aftertreatment status', bytes: 7, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '8C', name: 'O2 sensor (wide range) lambda', bytes: 17, decode: ([, B, C]) => word(B, C) / 32768, unit: 'λ', min: 0, max: 2, digits: 3 },
+  { mode: '01', pid: '8D', name: 'Throttle position G', bytes: 1, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: '8E', name: 'Engine friction torque', bytes: 1, decode: ([A]) => torque(A), unit: '%', min: -125, max: 130, key: 'frictionTorque', rate: 0.5 },
+  { mode: '01', pid: '8F', name: 'PM sensor bank 1 & 2', bytes: 7, decode: ([, B, C]) => word(B, C) / 80, unit: 'mg/m³', min: 0, max: 819.19, digits: 2 },
+  { mode: '01', pid: '90', name: 'WWH-OBD vehicle OBD system info', bytes: 3, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '91', name: 'WWH-OBD ECU OBD system info', bytes: 5, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '92', name: 'Fuel system control', bytes: 2, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '93', name: 'WWH-OBD counters', bytes: 3, decode: ([, B, C]) => word(B, C), unit: 'h', min: 0, max: 65535 },
+  { mode: '01', pid: '94', name: 'NOx warning and inducement system', bytes: 12, decode: ([A]) => A, ...RAW },
+  { mode: '01', pid: '98', name: 'Exhaust gas temp bank 1', bytes: 9, decode: ([, B, C]) => wideTemperature(B, C), ...WIDE_TEMPERATURE },
+  { mode: '01', pid: '99', name: 'Exhaust gas temp bank 2', bytes: 9, decode: ([, B, C]) => wideTemperature(B, C), ...WIDE_TEMPERATURE },
+  { mode: '01', pid: '9A', name: 'Hybrid/EV battery voltage', bytes: 6, decode: ([, , C, D]) => word(C, D) / 64, unit: 'V', min: 0, max: 1024, digits: 1 },
+  { mode: '01', pid: '9B', name: 'Diesel exhaust fluid level', bytes: 4, decode: ([, , , D]) => percent(D), ...PERCENT },
+  { mode: '01', pid: '9C', name: 'O2 sensor data', bytes: 17, decode: ([, B, C]) => word(B, C) / 32768, unit: 'λ', min: 0, max: 2, digits: 3 },
+  { mode: '01', pid: '9D', name: 'Engine fuel mass rate', bytes: 4, decode: ([A, B]) => word(A, B) / 50, unit: 'g/s', min: 0, max: 1310.7, digits: 2 },
+  { mode: '01', pid: '9E', name: 'Engine exhaust flow rate', bytes: 2, decode: ([A, B]) => word(A, B) / 5, unit: 'kg/h', min: 0, max: 13107, digits: 1 },
+  { mode: '01', pid: '9F', name: 'Fuel system percentage use', bytes: 9, decode: ([A]) => percent(A), ...PERCENT },
+  { mode: '01', pid: 'A1', name: 'NOx sensor corrected data', bytes: 9, decode: ([, B, C]) => word(B, C), unit: 'ppm', min: 0, max: 65535 },
+  { mode: '01', pid: 'A2', name: 'Cylinder fuel rate', bytes: 2, decode: ([A, B]) => word(A, B) / 32, unit: 'mg/stroke', min: 0, max: 2048, digits: 2 },
+  { mode: '01', pid: 'A3', name: 'Evap system vapour pressure', bytes: 9, decode: ([, B, C]) => signedWord(B, C) / 4, unit: 'Pa', min: -8192, max: 8192, digits: 2 },
+  { mode: '01', pid: 'A4', name: 'Transmission actual gear', bytes: 4, decode: ([, , C]) => C >> 4, unit: '', min: 0, max: 15 },
+  { mode: '01', pid: 'A5', name: 'Commanded DEF dosing', bytes: 4, decode: ([, B]) => B / 2, unit: '%', min: 0, max: 127.5, digits: 1 },
+  { mode: '01', pid: 'A6', name: 'Odometer', bytes: 4, decode: ([A, B, C, D]) => dword(A, B, C, D) / 10, unit: 'km', min: 0, max: 429496729.5, digits: 1 },
+  { mode: '01', pid: 'A7', name: 'NOx sensor 3 concentration', bytes: 4, decode: ([, B, C]) => word(B, C), unit: 'ppm', min: 0, max: 65535 },
+  { mode: '01', pid: 'A8', name: 'NOx sensor 3 corrected concentration', bytes: 4, decode: ([, B, C]) => word(B, C), unit: 'ppm', min: 0, max: 65535 },
+  { mode: '01', pid: 'A9', name: 'ABS disable switch state', bytes: 4, decode: ([, B]) => B & 0x01, unit: '', min: 0, max: 1 },
+];
+
+// '010C' -> definition
+const DEFINITIONS = new Map(PID_REGISTRY.map(definition => [`${definition.mode}${definition.pid}`, definition]));
+
+const DEFINITIONS_BY_KEY = new Map(
+  PID_REGISTRY
+    .filter(definition => definition.key !== undefined)
+    .map(definition => [definition.key!, definition])
+);
+
+export const getPidDefinition = (request: string): PIDDefinition | undefined =>
+  DEFINITIONS.get(request.toUpperCase());
+
+export const getChannelDefinition = (key: keyof OBDData): PIDDefinition | undefined =>
+  DEFINITIONS_BY_KEY.get(key);
+
+// Gauge scale for a live data field
+export const channelRange = (key: keyof OBDData): { min: number; max: number } => {
+  const definition = DEFINITIONS_BY_KEY.get(key);
+  return definition ? { min: definition.min, max: definition.max } : { min: 0, max: 100 };
+};
+
+/**
+ * Decode a PID's data bytes (hex) into `target` - the `key` field plus any
+ * extra fields. Returns the value, or null if the reply is too short.
+ */
+export const applyPid = (definition: PIDDefinition, dataHex: string, target: Partial<OBDData>): number | null => {
+  if (dataHex.length < definition.bytes * 2) return null;
+
+  const bytes = Array.from({ length: definition.bytes }, (_, i) => parseInt(dataHex.substring(i * 2, i * 2 + 2), 16));
+  const factor = 10 ** (definition.digits ?? 0);
+  const value = Math.round(definition.decode(bytes) * factor) / factor;
+
+  if (definition.key) {
+    Object.assign(target, { [definition.key]: value });
+  }
+  definition.assign?.(bytes, target);
+  return value;
+};
@@ -0,0 +1,164 @@
+// Deadline scheduler for live data polling.
+// Every PID has a target rate; the PIDs whose next sample is due soonest go
+// out first, so fast channels stay fast and slow ones still get their turn
+// when the bus is saturated.
+
+export interface ChannelPollStats {
+  pid: string;               // Mode 01 PID, e.g. '010C'
+  targetHz: number;
+  achievedHz: number;        // Samples received per second over the stats window
+  latencyMs: number;         // Smoothed round trip of the requests carrying this PID
+  samples: number;           // Total samples since polling started
+}
+
+export interface PollingStats {
+  channels: ChannelPollStats[];
+  requestRate: number;       // Requests per second
+  sampleRate: number;        // PID values per second, all channels
+  averageLatency: number;    // ms per request round trip
+  busLoad: number;           // Share of the window spent waiting on replies, 0-1
+  demandHz: number;          // Sum of all target rates
+}
+
+export interface PollBatch {
+  pids: string[];            // PIDs to request now, empty if nothing is due yet
+  waitMs: number;            // How long until the next PID falls due
+}
+
+// Longest the poll loop sleeps, so changed rates take effect quickly
+const MAX_WAIT = 500;        // ms
+
+const STATS_WINDOW = 5000;   // ms of history behind achieved rates and bus load
+const LATENCY_SMOOTHING = 0.2;
+
+interface ChannelState {
+  pid: string;
+  periodMs: number;
+  due: number;               // Timestamp the next sample is wanted by
+  latencyMs: number;
+  samples: number;
+  receivedAt: number[];      // Sample timestamps inside the stats window
+}
+
+export class PollScheduler {
+  private channels: ChannelState[];
+  private requests: Array<{ sentAt: number; receivedAt: number }> = [];
+  private averageLatency: number = 0;
+  private startedAt: number;
+  private groupOf: (pid: string) => string;
+
+  // rates: target Hz per PID to poll; groupOf: PIDs of one group can share a request
+  constructor(
+    rates: Record<string, number>,
+    now: number = Date.now(),
+    groupOf: (pid: string) => string = () => '',
+  ) {
+    this.startedAt = now;
+    this.groupOf = groupOf;
+    this.channels = [];
+    this.setRates(rates, now);
+  }
+
+  /**
+   * Change which PIDs are polled and how often. PIDs that stay keep their
+   * statistics and deadline (pulled in if the new rate is higher); new
+   * ones fall due immediately.
+   */
+  setRates(rates: Record<string, number>, now: number = Date.now()): void {
+    this.channels = Object.entries(rates).map(([pid, hz]) => {
+      const periodMs = 1000 / hz;
+      const existing = this.channels.find(channel => channel.pid === pid);
+      if (!existing) {
+        return { pid, periodMs, due: now, latencyMs: 0, samples: 0, receivedAt: [] };
+      }
+      return { ...existing, periodMs, due: Math.min(existing.due, now + periodMs) };
+    });
+  }
+
+  /**
+   * Pick the most overdue PID plus others of its group, earliest deadline
+   * first, up to `maxPids(group)`. PIDs falling due before the reply would
+   * arrive ride along in the same request.
+   */
+  next(maxPids: (group: string) => number, now: number = Date.now()): PollBatch {
+    const horizon = now + this.averageLatency;
+    const pending = this.channels
+      .filter(channel => channel.due <= horizon)
+      .sort((a, b) => a.due - b.due);
+    const group = pending.length > 0 ? this.groupOf(pending[0].pid) : '';
+    const due = pending
+      .filter(channel => this.groupOf(channel.pid) === group)
+      .slice(0, maxPids(group));
+
+    if (due.length === 0) {
+      const earliest = Math.min(...this.channels.map(channel => channel.due));
+      return { pids: [], waitMs: Math.min(MAX_WAIT, Math.max(0, earliest - horizon)) };
+    }
+
+    // Keep the cadence, but never bank a backlog of missed samples
+    due.forEach(channel => {
+      channel.due = Math.max(channel.due + channel.periodMs, now);
+    });
+    return { pids: due.map(channel => channel.pid), waitMs: 0 };
+  }
+
+  // Account for one finished request and the PIDs its reply carried
+  record(requested: string[], received: string[], sentAt: number, receivedAt: number = Date.now()): void {
+    const latency = receivedAt - sentAt;
+    this.averageLatency = this.requests.length === 0
+      ? latency
+      : this.averageLatency + (latency - this.averageLatency) * LATENCY_SMOOTHING;
+    this.requests.push({ sentAt, receivedAt });
+
+    for (const channel of this.channels) {
+      if (!requested.includes(channel.pid)) continue;
+      channel.latencyMs = channel.latencyMs === 0
+        ? latency
+        : channel.latencyMs + (latency - channel.latencyMs) * LATENCY_SMOOTHING;
+      if (received.includes(channel.pid)) {
+        channel.samples++;
+        channel.receivedAt.push(receivedAt);
+      }
+    }
+    this.prune(receivedAt);
+  }
+
+  getStats(now: number = Date.now()): PollingStats {
+    this.prune(now);
+    // Rates are meaningless until the window has filled a little
+    const window = Math.max(1000, Math.min(STATS_WINDOW, now - this.startedAt)) / 1000;
+    const busyMs = this.requests.reduce((sum, request) => sum + request.receivedAt - request.sentAt, 0);
+
+    const channels = this.channels.map(channel => ({
+      pid: channel.pid,
+      targetHz: 1000 / channel.periodMs,
+      achievedHz: channel.receivedAt.length / this.channelWindow(channel, now),
+      latencyMs: Math.round(channel.latencyMs),
+      samples: channel.samples,
+    }));
+
+    return {
+      channels,
+      requestRate: this.requests.length / window,
+      sampleRate: channels.reduce((sum, channel) => sum + channel.achievedHz, 0),
+      averageLatency: Math.round(this.averageLatency),
+      busLoad: Math.min(1, busyMs / (window * 1000)),
+      demandHz: channels.reduce((sum, channel) => sum + channel.targetHz, 0),
+    };
+  }
+
+  // Slow channels need a longer window to show anything but 0 or a spike
+  private channelWindow(channel: ChannelState, now: number): number {
+    const span = Math.max(STATS_WINDOW, channel.periodMs * 2);
+    return Math.max(1000, Math.min(span, now - this.startedAt)) / 1000;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - STATS_WINDOW;
+    this.requests = this.requests.filter(request => request.receivedAt >= cutoff);
+    for (const channel of this.channels) {
+      const channelCutoff = now - Math.max(STATS_WINDOW, channel.periodMs * 2);
+      channel.receivedAt = channel.receivedAt.filter(time => time >= channelCutoff);
+    }
+  }
+}
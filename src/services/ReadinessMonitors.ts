@@ -0,0 +1,92 @@
+// Emissions readiness monitor decoding (PID 0101 since DTCs cleared, PID 0141 this drive cycle)
+// Byte layout per SAE J1979:
+//   A: bit 7 = MIL on, bits 0-6 = number of confirmed DTCs (0101 only)
+//   B: bit 3 = compression ignition, bits 0-2 = continuous monitors supported,
+//      bits 4-6 = continuous monitors incomplete
+//   C: non-continuous monitors supported
+//   D: non-continuous monitors incomplete
+
+export type MonitorStatus = 'complete' | 'incomplete' | 'not_supported';
+
+export type IgnitionType = 'spark' | 'compression';
+
+export interface MonitorResult {
+  name: string;
+  continuous: boolean;
+  status: MonitorStatus;
+}
+
+export interface ReadinessReport {
+  milOn: boolean;
+  dtcCount: number;
+  ignitionType: IgnitionType;
+  monitors: MonitorResult[];
+}
+
+const CONTINUOUS_MONITORS = ['Misfire', 'Fuel system', 'Components'];
+
+// Bit 0..7 of bytes C/D - the meaning depends on the ignition type
+const SPARK_MONITORS: (string | null)[] = [
+  'Catalyst',
+  'Heated catalyst',
+  'Evaporative system',
+  'Secondary air',
+  'A/C refrigerant',
+  'Oxygen sensor',
+  'Oxygen sensor heater',
+  'EGR / VVT system',
+];
+
+const COMPRESSION_MONITORS: (string | null)[] = [
+  'NMHC catalyst',
+  'NOx / SCR aftertreatment',
+  null,                      // Reserved
+  'Boost pressure',
+  null,                      // Reserved
+  'Exhaust gas sensor',
+  'DPF (PM filter)',
+  'EGR / VVT system',
+];
+
+const monitorStatus = (supported: boolean, incomplete: boolean): MonitorStatus => {
+  if (!supported) return 'not_supported';
+  return incomplete ? 'incomplete' : 'complete';
+};
+
+/**
+ * Decode the four data bytes of PID 01 or 41.
+ * PID 41 leaves byte A reserved, so MIL/DTC count are only meaningful for PID 01.
+ */
+export const decodeReadiness = (dataHex: string): ReadinessReport | null => {
+  if (dataHex.length < 8) return null;
+
+  const [A, B, C, D] = [0, 2, 4, 6].map(i => parseInt(dataHex.substring(i, i + 2), 16));
+  const ignitionType: IgnitionType = (B & 0x08) ? 'compression' : 'spark';
+
+  const monitors: MonitorResult[] = CONTINUOUS_MONITORS.map((name, bit) => ({
+    name,
+    continuous: true,
+    status: monitorStatus(!!(B & (1 << bit)), !!(B & (1 << (bit + 4)))),
+  }));
+
+  const nonContinuous = ignitionType === 'compression' ? COMPRESSION_MONITORS : SPARK_MONITORS;
+  nonContinuous.forEach((name, bit) => {
+    if (!name) return;
+    monitors.push({
+      name,
+      continuous: false,
+      status: monitorStatus(!!(C & (1 << bit)), !!(D & (1 << bit))),
+    });
+  });
+
+  return {
+    milOn: !!(A & 0x80),
+    dtcCount: A & 0x7f,
+    ignitionType,
+    monitors,
+  };
+};
+
+// Ready for inspection when every supported monitor has completed
+export const isReadyForInspection = (report: ReadinessReport): boolean =>
+  report.monitors.every(monitor => monitor.status !== 'incomplete');
@@ -0,0 +1,213 @@
+// Helpers for turning raw ELM327 replies into hex payloads
+
+/**
+ * Split a raw reply into messages (hex strings without spaces).
+ * ISO 15765 replies longer than 7 bytes arrive as a byte-count line
+ * followed by numbered frames ("0:", "1:", ...) - those are joined back
+ * into a single message and trimmed to the announced length.
+ * Status lines such as "SEARCHING..." are dropped.
+ */
+export const splitMessages = (response: string): string[] => {
+  const messages: string[] = [];
+  let multiFrame: { length: number; data: string } | null = null;
+
+  const flushMultiFrame = () => {
+    if (multiFrame) {
+      messages.push(multiFrame.data.substring(0, multiFrame.length * 2));
+      multiFrame = null;
+    }
+  };
+
+  const lines = response
+    .split(/[\r\n]+/)
+    .map(line => line.replace(/\s/g, '').toUpperCase())
+    .filter(line => line.length > 0);
+
+  for (const line of lines) {
+    if (/^[0-9A-F]{3}$/.test(line)) {
+      flushMultiFrame();
+      multiFrame = { length: parseInt(line, 16), data: '' };
+    } else if (/^[0-9A-F]:[0-9A-F]*$/.test(line) && multiFrame) {
+      multiFrame.data += line.substring(2);
+    } else if (/^[0-9A-F]+$/.test(line)) {
+      flushMultiFrame();
+      messages.push(line);
+    }
+  }
+  flushMultiFrame();
+
+  return messages;
+};
+
+// Convert a hex payload to text, skipping NUL padding and non-printable bytes
+export const hexToAscii = (hex: string): string => {
+  let text = '';
+  for (let i = 0; i + 2 <= hex.length; i += 2) {
+    const code = parseInt(hex.substring(i, i + 2), 16);
+    if (code >= 0x20 && code < 0x7f) {
+      text += String.fromCharCode(code);
+    }
+  }
+  return text;
+};
+
+// Split a hex payload into fixed-size records (size in bytes)
+export const chunkHex = (hex: string, size: number): string[] => {
+  const chunks: string[] = [];
+  for (let i = 0; i + size * 2 <= hex.length; i += size * 2) {
+    chunks.push(hex.substring(i, i + size * 2));
+  }
+  return chunks;
+};
+
+// How replies are framed once headers are on (ATH1) - depends on the bus protocol
+export type HeaderFormat = 'none' | 'can11' | 'can29' | 'legacy';
+
+export interface ECUMessage {
+  ecu: string;               // Responder address: '7E8', '18DAF110', '10'; '' when headers are off
+  data: string;              // Payload starting with the response mode byte
+}
+
+// Well-known responder addresses for the OBD functional request
+const ECU_NAMES: Record<string, string> = {
+  '7E8': 'Engine',
+  '7E9': 'Transmission',
+  '7EA': 'ECU #3',
+  '7EB': 'ECU #4',
+  '18DAF110': 'Engine',
+  '18DAF118': 'Transmission',
+  '10': 'Engine',
+  '18': 'Transmission',
+};
+
+export const describeECU = (ecu: string): string =>
+  ecu ? `${ECU_NAMES[ecu] ?? 'ECU'} (${ecu})` : 'Default';
+
+export const isEngineECU = (ecu: string): boolean => ECU_NAMES[ecu] === 'Engine';
+
+/**
+ * Split a reply into per-ECU messages.
+ * CAN frames carry an 11-bit (3 hex) or 29-bit (8 hex) ID followed by the
+ * ISO-TP PCI byte: 0x = single frame, 1x = first frame of a multi-frame
+ * message, 2x = consecutive frame. Legacy protocols use a 3-byte header
+ * (priority, target, source) and a trailing checksum.
+ */
+export const splitECUMessages = (response: string, format: HeaderFormat): ECUMessage[] => {
+  if (format === 'none') {
+    return splitMessages(response).map(data => ({ ecu: '', data }));
+  }
+
+  const lines = response
+    .split(/[\r\n]+/)
+    .map(line => line.replace(/\s/g, '').toUpperCase())
+    .filter(line => /^[0-9A-F]+$/.test(line));
+
+  const messages: ECUMessage[] = [];
+
+  if (format === 'legacy') {
+    for (const line of lines) {
+      if (line.length < 10) continue;
+      messages.push({ ecu: line.substring(4, 6), data: line.substring(6, line.length - 2) });
+    }
+    return messages;
+  }
+
+  const idLength = format === 'can11' ? 3 : 8;
+  const pending = new Map<string, { length: number; data: string }>();
+
+  for (const line of lines) {
+    if (line.length <= idLength + 2) continue;
+    const ecu = line.substring(0, idLength);
+    const frame = line.substring(idLength);
+
+    switch (frame[0]) {
+      case '0': { // Single frame: low nibble is the payload length
+        const length = parseInt(frame[1], 16);
+        messages.push({ ecu, data: frame.substring(2, 2 + length * 2) });
+        break;
+      }
+      case '1': // First frame: 12-bit total length
+        pending.set(ecu, { length: parseInt(frame.substring(1, 4), 16), data: frame.substring(4) });
+        break;
+      case '2': { // Consecutive frame
+        const message = pending.get(ecu);
+        if (!message) break;
+        message.data += frame.substring(2);
+        if (message.data.length >= message.length * 2) {
+          messages.push({ ecu, data: message.data.substring(0, message.length * 2) });
+          pending.delete(ecu);
+        }
+        break;
+      }
+    }
+  }
+
+  // Keep whatever arrived of messages that were cut short
+  pending.forEach((message, ecu) => messages.push({ ecu, data: message.data }));
+  return messages;
+};
+
+// Header format for an ELM327 protocol number (ATDPN)
+export const headerFormatForProtocol = (protocol: string): HeaderFormat => {
+  switch (protocol) {
+    case '6':
+    case '8':
+    case 'B':
+      return 'can11';
+    case '7':
+    case '9':
+    case 'A':
+    case 'C':
+      return 'can29';
+    default:
+      return 'legacy';
+  }
+};
+
+// ELM327 replies that carry no data, by what went wrong
+export type ELMReplyError =
+  | 'no_data'                // Request went out, no ECU answered
+  | 'unknown_command'        // '?' - the adapter did not understand the command
+  | 'stopped'                // Reply cut short by input arriving during it
+  | 'can_error'              // CAN controller could not send or receive
+  | 'bus_error'              // BUS ERROR, BUS BUSY, FB ERROR, DATA ERROR
+  | 'bus_init_error'         // BUS INIT: ...ERROR - K-line wake-up failed
+  | 'unable_to_connect'      // Protocol search found no ECU
+  | 'buffer_full'            // Adapter RX buffer overflowed
+  | 'searching';             // Reply ended while still searching for a protocol
+
+const ELM_ERROR_REPLIES: Array<[RegExp, ELMReplyError]> = [
+  [/^NODATA$/, 'no_data'],
+  [/^\?$/, 'unknown_command'],
+  [/^STOPPED$/, 'stopped'],
+  [/^CANERROR$/, 'can_error'],
+  [/^(BUSERROR|BUSBUSY|FBERROR|<?DATAERROR.*)$/, 'bus_error'],
+  [/^BUSINIT:?\.*ERROR$/, 'bus_init_error'],
+  [/^UNABLETOCONNECT$/, 'unable_to_connect'],
+  [/^BUFFERFULL$/, 'buffer_full'],
+];
+
+/**
+ * Classify a cleaned reply (echo stripped). Returns null when at least one
+ * line carries data - e.g. one ECU answered while the search banner or
+ * another ECU's complaint is on the other lines.
+ */
+export const classifyReply = (reply: string): ELMReplyError | null => {
+  const lines = reply
+    .split(/[\r\n]+/)
+    .map(line => line.replace(/\s/g, '').toUpperCase())
+    .filter(line => line.length > 0);
+  const content = lines.filter(line => line !== 'SEARCHING...');
+
+  if (content.length === 0) {
+    return lines.length > 0 ? 'searching' : null;
+  }
+  if (content.some(line => /^[0-9A-F:]+$/.test(line))) {
+    return null;
+  }
+  for (const line of content) {
+    const match = ELM_ERROR_REPLIES.find(([pattern]) => pattern.test(line));
+    if (match) return match[1];
+  }
+  return null;
+};
@@ -0,0 +1,78 @@
+import RNBluetoothClassic from 'react-native-bluetooth-classic';
+import type { BluetoothDevice, BluetoothEventSubscription } from 'react-native-bluetooth-classic';
+import type { OBDTransport } from './OBDTransport';
+
+// Classic Bluetooth adapters speak the Serial Port Profile
+// (service UUID 00001101-0000-1000-8000-00805f9b34fb) over an RFCOMM socket.
+// They have to be paired in the phone's Bluetooth settings first.
+export class SPPTransport implements OBDTransport {
+  readonly type = 'spp' as const;
+  readonly name: string;
+  private address: string;
+  private device: BluetoothDevice | null = null;
+  private subscription: BluetoothEventSubscription | null = null;
+  private disconnectSubscription: BluetoothEventSubscription | null = null;
+  private dataListener: ((chunk: string) => void) | null = null;
+  private closeListener: (() => void) | null = null;
+
+  constructor(address: string, name: string) {
+    this.address = address;
+    this.name = name;
+  }
+
+  // Paired devices - Classic Bluetooth has no scan for already-bonded adapters
+  static async getPairedDevices(): Promise<Array<{ id: string; name: string }>> {
+    if (!(await RNBluetoothClassic.isBluetoothEnabled())) {
+      throw new Error('Bluetooth is off. Please turn on Bluetooth.');
+    }
+    const devices = await RNBluetoothClassic.getBondedDevices();
+    return devices.map(device => ({ id: device.address, name: device.name || device.address }));
+  }
+
+  async open(): Promise<void> {
+    // No delimiter: pass raw data through, OBDService waits for the '>' prompt itself
+    this.device = await RNBluetoothClassic.connectToDevice(this.address, {
+      delimiter: '',
+      charset: 'ascii',
+    });
+    this.subscription = this.device.onDataReceived(event => {
+      this.dataListener?.(event.data);
+    });
+    this.disconnectSubscription = RNBluetoothClassic.onDeviceDisconnected(event => {
+      if (event.device.address !== this.address) return;
+      this.removeSubscriptions();
+      this.device = null;
+      this.closeListener?.();
+    });
+  }
+
+  async write(data: string): Promise<void> {
+    if (!this.device) {
+      throw new Error('SPP socket not open');
+    }
+    await this.device.write(data, 'ascii');
+  }
+
+  onData(listener: (chunk: string) => void): void {
+    this.dataListener = listener;
+  }
+
+  onClose(listener: () => void): void {
+    this.closeListener = listener;
+  }
+
+  async close(): Promise<void> {
+    this.removeSubscriptions();
+    await this.device?.disconnect();
+    this.device = null;
+  }
+
+  private removeSubscriptions(): void {
+    this.subscription?.remove();
+    this.subscription = null;
+    this.disconnectSubscription?.remove();
+    this.disconnectSubscription = null;
+  }
+}
+
+export default SPPTransport;
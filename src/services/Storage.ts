@@ -0,0 +1,28 @@
+// Persistent key-value storage shared by the services and hooks.
+// Falls back to memory (lost on restart) where AsyncStorage is not linked, e.g. Expo Go.
+
+export interface KeyValueStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+const createMemoryStorage = (): KeyValueStorage => {
+  const memoryStorage: { [key: string]: string } = {};
+  return {
+    getItem: async (key: string) => memoryStorage[key] ?? null,
+    setItem: async (key: string, value: string) => { memoryStorage[key] = value; },
+    removeItem: async (key: string) => { delete memoryStorage[key]; },
+  };
+};
+
+const loadStorage = (): KeyValueStorage => {
+  try {
+    return require('@react-native-async-storage/async-storage').default;
+  } catch (e) {
+    console.warn('AsyncStorage not available, using in-memory storage');
+    return createMemoryStorage();
+  }
+};
+
+export const AsyncStorage: KeyValueStorage = loadStorage();
@@ -0,0 +1,75 @@
+import TcpSocket from 'react-native-tcp-socket';
+import type { OBDTransport } from './OBDTransport';
+
+const CONNECT_TIMEOUT = 5000;  // ms
+
+// Wi-Fi adapters run their own access point and accept a single raw TCP client
+export class TCPTransport implements OBDTransport {
+  readonly type = 'tcp' as const;
+  readonly name: string;
+  private host: string;
+  private port: number;
+  private socket: ReturnType<typeof TcpSocket.createConnection> | null = null;
+  private dataListener: ((chunk: string) => void) | null = null;
+  private closeListener: (() => void) | null = null;
+
+  constructor(host: string, port: number) {
+    this.host = host;
+    this.port = port;
+    this.name = `Wi-Fi ${host}:${port}`;
+  }
+
+  open(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        socket.destroy();
+        reject(new Error(`No answer from ${this.host}:${this.port}. Is the phone on the adapter's Wi-Fi?`));
+      }, CONNECT_TIMEOUT);
+
+      const socket = TcpSocket.createConnection({ host: this.host, port: this.port }, () => {
+        clearTimeout(timer);
+        this.socket = socket;
+        resolve();
+      });
+      socket.setEncoding('ascii');
+      socket.on('data', (data) => {
+        this.dataListener?.(data.toString());
+      });
+      socket.on('error', (error) => {
+        console.error('TCP socket error:', error);
+        clearTimeout(timer);
+        reject(error);
+      });
+      socket.on('close', () => {
+        // Only report drops of an established link, not our own close()
+        if (this.socket === socket) {
+          this.socket = null;
+          this.closeListener?.();
+        }
+      });
+    });
+  }
+
+  async write(data: string): Promise<void> {
+    if (!this.socket) {
+      throw new Error('TCP socket not open');
+    }
+    this.socket.write(data, 'ascii');
+  }
+
+  onData(listener: (chunk: string) => void): void {
+    this.dataListener = listener;
+  }
+
+  onClose(listener: () => void): void {
+    this.closeListener = listener;
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    socket?.destroy();
+  }
+}
+
+export default TCPTransport;
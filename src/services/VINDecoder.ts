@@ -0,0 +1,144 @@
+// Offline VIN decoding (ISO 3779 / 49 CFR 565)
+// World Manufacturer Identifier, model year and North American check digit
+
+export interface VINInfo {
+  vin: string;
+  wmi: string;               // World Manufacturer Identifier (positions 1-3)
+  manufacturer: string;
+  region: string;
+  modelYear: number | null;
+  checkDigitValid: boolean;  // Only mandatory for North American / Chinese VINs
+  serialNumber: string;      // Positions 12-17
+}
+
+// Three-character WMIs take precedence over two-character prefixes
+const WMI_MANUFACTURERS: Record<string, string> = {
+  // Toyota / Lexus
+  JT: 'Toyota',
+  JTH: 'Lexus',
+  JTJ: 'Lexus',
+  SB1: 'Toyota (UK)',
+  NMT: 'Toyota (Turkey)',
+  VNK: 'Toyota (France)',
+  '4T1': 'Toyota (USA)',
+  '4T3': 'Toyota (USA)',
+  '5TD': 'Toyota (USA)',
+  '5TF': 'Toyota (USA)',
+  '2T1': 'Toyota (Canada)',
+  '2T3': 'Toyota (Canada)',
+  // Other Japanese
+  JHM: 'Honda',
+  JHL: 'Honda',
+  JN: 'Nissan',
+  JM: 'Mazda',
+  JF: 'Subaru',
+  JS: 'Suzuki',
+  JMB: 'Mitsubishi',
+  JA: 'Isuzu',
+  // Korean
+  KMH: 'Hyundai',
+  KNA: 'Kia',
+  KND: 'Kia',
+  // European
+  WVW: 'Volkswagen',
+  WV1: 'Volkswagen Commercial',
+  WV2: 'Volkswagen Commercial',
+  WAU: 'Audi',
+  WBA: 'BMW',
+  WBS: 'BMW M',
+  WDB: 'Mercedes-Benz',
+  WDD: 'Mercedes-Benz',
+  W0L: 'Opel',
+  WF0: 'Ford (Germany)',
+  WP0: 'Porsche',
+  VF1: 'Renault',
+  VF3: 'Peugeot',
+  VF7: 'Citroen',
+  ZFA: 'Fiat',
+  ZAR: 'Alfa Romeo',
+  TMB: 'Skoda',
+  VSS: 'SEAT',
+  UU1: 'Dacia',
+  YV1: 'Volvo',
+  SAL: 'Land Rover',
+  SAJ: 'Jaguar',
+  // North American
+  '1FA': 'Ford',
+  '1FT': 'Ford Truck',
+  '1G1': 'Chevrolet',
+  '1GC': 'Chevrolet Truck',
+  '1C4': 'Chrysler',
+  '1J4': 'Jeep',
+  '5YJ': 'Tesla',
+};
+
+// Model year character cycle (repeats every 30 years starting 1980)
+const YEAR_CODES = 'ABCDEFGHJKLMNPRSTVWXY123456789';
+
+const TRANSLITERATION: Record<string, number> = {
+  A: 1, B: 2, C: 3, D: 4, E: 5, F: 6, G: 7, H: 8,
+  J: 1, K: 2, L: 3, M: 4, N: 5, P: 7, R: 9,
+  S: 2, T: 3, U: 4, V: 5, W: 6, X: 7, Y: 8, Z: 9,
+};
+
+const CHECK_WEIGHTS = [8, 7, 6, 5, 4, 3, 2, 10, 0, 9, 8, 7, 6, 5, 4, 3, 2];
+
+export const isValidVIN = (vin: string): boolean => /^[A-HJ-NPR-Z0-9]{17}$/.test(vin);
+
+const getRegion = (firstChar: string): string => {
+  if (firstChar >= 'A' && firstChar <= 'H') return 'Africa';
+  if (firstChar >= 'J' && firstChar <= 'R') return 'Asia';
+  if (firstChar >= 'S' && firstChar <= 'Z') return 'Europe';
+  if (firstChar >= '1' && firstChar <= '5') return 'North America';
+  if (firstChar === '6' || firstChar === '7') return 'Oceania';
+  return 'South America';
+};
+
+const getManufacturer = (wmi: string): string =>
+  WMI_MANUFACTURERS[wmi] ?? WMI_MANUFACTURERS[wmi.substring(0, 2)] ?? 'Unknown';
+
+// Position 10 repeats every 30 years - pick the latest year that is not in the future
+const getModelYear = (code: string, now: Date = new Date()): number | null => {
+  const index = YEAR_CODES.indexOf(code);
+  if (index === -1) return null;
+
+  const latestAllowed = now.getFullYear() + 1;
+  let year = 1980 + index;
+  while (year + 30 <= latestAllowed) {
+    year += 30;
+  }
+  return year;
+};
+
+export const computeCheckDigit = (vin: string): string => {
+  let sum = 0;
+  for (let i = 0; i < 17; i++) {
+    const char = vin[i];
+    const value = /[0-9]/.test(char) ? parseInt(char, 10) : TRANSLITERATION[char] ?? 0;
+    sum += value * CHECK_WEIGHTS[i];
+  }
+  const remainder = sum % 11;
+  return remainder === 10 ? 'X' : remainder.toString();
+};
+
+export const decodeVIN = (rawVin: string): VINInfo | null => {
+  const vin = rawVin.trim().toUpperCase();
+  if (!isValidVIN(vin)) return null;
+
+  const wmi = vin.substring(0, 3);
+  return {
+    vin,
+    wmi,
+    manufacturer: getManufacturer(wmi),
+    region: getRegion(vin[0]),
+    modelYear: getModelYear(vin[9]),
+    checkDigitValid: computeCheckDigit(vin) === vin[8],
+    serialNumber: vin.substring(11),
+  };
+};
+
+// Human-readable default name for a newly seen vehicle
+export const describeVehicle = (info: VINInfo): string =>
+  [info.manufacturer !== 'Unknown' ? info.manufacturer : info.wmi, info.modelYear]
+    .filter(Boolean)
+    .join(' ');
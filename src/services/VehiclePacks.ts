@@ -0,0 +1,72 @@
+import type { CustomPID, CustomPIDId } from './CustomPIDs';
+import { headerFormatForProtocol } from './ResponseParser';
+import type { HeaderFormat } from './ResponseParser';
+
+// Manufacturer enhanced PIDs for specific engines, polled like custom PIDs.
+// Generic OBD only covers emissions data; rail pressure, injector trims and
+// turbo actuator positions live in the ECU's own data blocks (Mode 21/22),
+// which only answer when addressed physically - hence a header per bus.
+
+export type VehiclePackId = 'toyota-1cd-ftv';
+
+export interface VehiclePack {
+  id: VehiclePackId;
+  name: string;
+  description: string;
+  headers: Record<HeaderFormat, string>;   // Engine ECU request header per bus type
+  pids: Array<Omit<CustomPID, 'header'>>;
+}
+
+// Engine ECU, physical addressing: 7E0 on CAN, KWP2000 target 0x10 on K-line
+const TOYOTA_ENGINE_HEADERS: Record<HeaderFormat, string> = {
+  none: '7E0',
+  can11: '7E0',
+  can29: '18DA10F1',
+  legacy: '8210F1',
+};
+
+/**
+ * 2.0 D-4D (1CD-FTV) common-rail diesel, e.g. 2001-2005 RAV4, Avensis, Corolla.
+ * 2101 is the live engine block, 2103 the injector compensation block
+ * (one signed byte per cylinder, 0.1 mm³/stroke).
+ */
+const TOYOTA_1CD_FTV: VehiclePack = {
+  id: 'toyota-1cd-ftv',
+  name: 'Toyota 2.0 D-4D (1CD-FTV)',
+  description: 'Common rail, injector corrections, turbo vanes, boost and EGR from the engine ECU',
+  headers: TOYOTA_ENGINE_HEADERS,
+  pids: [
+    { id: 'custom-d4d-rail-pressure', name: 'Rail Pressure', request: '2101', expression: '(A*256+B)/100', unit: 'MPa', min: 0, max: 160 },
+    { id: 'custom-d4d-boost-target', name: 'Target Boost', request: '2101', expression: '(C*256+D)/100', unit: 'kPa', min: 0, max: 250 },
+    { id: 'custom-d4d-boost-actual', name: 'Actual Boost', request: '2101', expression: '(E*256+F)/100', unit: 'kPa', min: 0, max: 250 },
+    { id: 'custom-d4d-vn-position', name: 'VN Turbo', request: '2101', expression: 'G*100/255', unit: '%', min: 0, max: 100 },
+    { id: 'custom-d4d-egr-position', name: 'EGR Valve', request: '2101', expression: 'H*100/255', unit: '%', min: 0, max: 100 },
+    { id: 'custom-d4d-injector-1', name: 'Injector 1', request: '2103', expression: 'SIGNED(A)/10', unit: 'mm³', min: -5, max: 5 },
+    { id: 'custom-d4d-injector-2', name: 'Injector 2', request: '2103', expression: 'SIGNED(B)/10', unit: 'mm³', min: -5, max: 5 },
+    { id: 'custom-d4d-injector-3', name: 'Injector 3', request: '2103', expression: 'SIGNED(C)/10', unit: 'mm³', min: -5, max: 5 },
+    { id: 'custom-d4d-injector-4', name: 'Injector 4', request: '2103', expression: 'SIGNED(D)/10', unit: 'mm³', min: -5, max: 5 },
+  ],
+};
+
+export const VEHICLE_PACKS: Record<VehiclePackId, VehiclePack> = {
+  'toyota-1cd-ftv': TOYOTA_1CD_FTV,
+};
+
+// Ids the D-4D section of the gauges screen reads
+export const D4D_PIDS = {
+  railPressure: 'custom-d4d-rail-pressure',
+  boostTarget: 'custom-d4d-boost-target',
+  boostActual: 'custom-d4d-boost-actual',
+  vnPosition: 'custom-d4d-vn-position',
+  egrPosition: 'custom-d4d-egr-position',
+  injectors: ['custom-d4d-injector-1', 'custom-d4d-injector-2', 'custom-d4d-injector-3', 'custom-d4d-injector-4'],
+} satisfies Record<string, CustomPIDId | CustomPIDId[]>;
+
+// The pack's PIDs addressed for the vehicle's bus (CAN until the protocol is known)
+export const getPackPids = (packId: string, protocol: string): CustomPID[] => {
+  const pack = VEHICLE_PACKS[packId as VehiclePackId];
+  if (!pack) return [];
+
+  const header = pack.headers[protocol ? headerFormatForProtocol(protocol) : 'can11'];
+  return pack.pids.map(pid => ({ ...pid, header }));
+};